@@ -0,0 +1,1306 @@
+import type {
+  CommandPaletteCoreOptions,
+  CommandPaletteHotkey,
+  CommandPaletteHotkeySection,
+  CommandPaletteItem,
+  CommandPalettePrompt,
+  CommandPaletteRejectedKeybinding,
+  CommandPaletteSection,
+  CommandPaletteState,
+  CommandUsage,
+  HotKeyPadAction,
+  HotKeyPadArgs,
+  HotKeyPadArgument,
+  HotKeyPadArgumentError,
+  HotKeyPadChoice,
+  HotKeyPadCommand,
+  HotKeyPadManifest,
+  HotKeyPadMode,
+  HotKeyPadProvider,
+  HotKeyPadStorage,
+  HotkeyCombo,
+  HotkeyEvent,
+  HotkeyMatch
+} from "./types"
+import {
+  formatHotkey,
+  formatHotkeySequence,
+  fuzzyMatch,
+  getDefaultStorage,
+  isReservedHotkey,
+  isValidHotkey,
+  matchesHotkey,
+  parseHotkeySequence,
+  parseKeybindings,
+  resolvePredicate
+} from "./utils"
+import { parseManifest, toManifest } from "./manifest"
+
+const HISTORY_KEY = "hotkeypad:history"
+const KEYBINDINGS_KEY = "hotkeypad:keybindings"
+const ARGUMENT_TYPES = ["text", "number", "choice"]
+
+/**
+ * Prefix of the mode listing the registered modes.
+ */
+export const MODES_PREFIX = "?"
+const MODES_MODE: HotKeyPadMode = { prefix: MODES_PREFIX, title: "Modes" }
+
+/**
+ * Check whether two canonical sequences overlap: equal, or one starting with
+ * the other so the shorter one completes before the longer can be typed.
+ */
+function isOverlapping(a: string, b: string) {
+  return a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `)
+}
+
+/**
+ * CommandPaletteCore - The headless model behind HotKeyPad.
+ *
+ * Owns the commands, the query with its grouped results, the active item and
+ * hotkey matching without touching the DOM. Renderers subscribe to its state
+ * and call back into it on user input.
+ *
+ * @example
+ * ```javascript
+ * const core = new CommandPaletteCore()
+ * core.subscribe(({ items, activeIndex }) => render(items, activeIndex))
+ * core.setCommands([{ id: "print", title: "Print Page", handler: () => window.print() }])
+ * core.setQuery("prn")
+ * ```
+ */
+export class CommandPaletteCore {
+  #commands: HotKeyPadCommand[] = []
+  #query = ""
+  #pages: string[] = []
+  #scopes: string[] = []
+  #sections: CommandPaletteSection[] = []
+  #activeIndex = 0
+  #modes: HotKeyPadMode[] = []
+  #mode: HotKeyPadMode | null = null
+  #prompt: {
+    command: HotKeyPadCommand
+    step: number
+    args: HotKeyPadArgs
+    error: HotKeyPadArgumentError | null
+    choices: HotKeyPadCommand[]
+    query: string
+  } | null = null
+  #state: CommandPaletteState
+  #subscribers = new Set<(state: CommandPaletteState) => void>()
+  #providers: HotKeyPadProvider[] = []
+  #actions = new Map<string, HotKeyPadAction>()
+  #manifestIds = new Set<string>()
+  #providerCommands: HotKeyPadCommand[] = []
+  #providerController: AbortController | null = null
+  #providerTimer: ReturnType<typeof setTimeout> | null = null
+  #searchDebounce = 200
+  #isLoading = false
+  #storage: HotKeyPadStorage
+  #history: { [id: string]: CommandUsage } = {}
+  #recentLimit = 5
+  #keybindings = new Map<string, string | null>()
+  #rejectedKeybindings: CommandPaletteRejectedKeybinding[] = []
+  #hotkeys = new Map<string, { sequence: HotkeyCombo[]; command: HotKeyPadCommand }>()
+  #pendingChord: HotkeyCombo[] = []
+  #chordTimer: ReturnType<typeof setTimeout> | null = null
+  #chordTimeout = 1000
+  #onChordTimeout: ((chord: HotkeyCombo[]) => void) | null = null
+  #onKeybindingsRejected: ((rejected: CommandPaletteRejectedKeybinding[]) => void) | null = null
+  #activationLetter = "K"
+  #isDestroyed = false
+
+  /**
+   * Create a new headless command palette.
+   * @param options Configuration options for the palette
+   */
+  constructor({
+    activationLetter,
+    chordTimeout,
+    searchDebounce,
+    storage,
+    recentLimit,
+    onChordTimeout,
+    onKeybindingsRejected
+  }: CommandPaletteCoreOptions = {}) {
+    if (activationLetter && activationLetter !== "") this.#activationLetter = activationLetter.toUpperCase()
+    if (chordTimeout != null && chordTimeout > 0) this.#chordTimeout = chordTimeout
+    if (searchDebounce != null && searchDebounce >= 0) this.#searchDebounce = searchDebounce
+    if (recentLimit != null && recentLimit >= 0) this.#recentLimit = recentLimit
+    if (onChordTimeout) this.#onChordTimeout = onChordTimeout
+    if (onKeybindingsRejected) this.#onKeybindingsRejected = onKeybindingsRejected
+    this.#storage = storage ?? getDefaultStorage()
+    this.#history = this.#loadHistory()
+    this.#keybindings = this.#loadKeybindings()
+    this.#state = this.#snapshot()
+  }
+
+  /* STATE METHODS */
+  #snapshot(): CommandPaletteState {
+    return {
+      query: this.#query,
+      pages: this.#pages.map((id) => this.#allCommands.find((command) => command.id === id) ?? { id, title: id }),
+      scopes: [...this.#scopes],
+      sections: this.#sections,
+      items: this.#sections.flatMap(({ items }) => items),
+      activeIndex: this.#activeIndex,
+      isLoading: this.#isLoading,
+      pendingChord: formatHotkeySequence(this.#pendingChord),
+      prompt: this.#promptSnapshot(),
+      mode: this.#mode
+    }
+  }
+
+  #promptSnapshot(): CommandPalettePrompt | null {
+    if (!this.#prompt) return null
+    const { command, step, args, error } = this.#prompt
+    return { command, argument: this.#argumentOf(this.#prompt), step, args: { ...args }, error }
+  }
+
+  #notify() {
+    this.#state = this.#snapshot()
+    this.#subscribers.forEach((subscriber) => subscriber(this.#state))
+  }
+
+  /**
+   * Recompute the results, evaluating the command predicates again, and
+   * move the active item back to the first one. With `keepActive`, the
+   * active item stays active if it is still listed.
+   */
+  #update(keepActive = false) {
+    const activeId = this.#state.items[this.#activeIndex]?.command.id
+    this.#sections = this.#computeSections()
+    const items = this.#sections.flatMap((section) => section.items)
+    const activeIndex = keepActive ? items.findIndex(({ command }) => command.id === activeId) : 0
+    this.#activeIndex = Math.max(activeIndex, 0)
+    this.#notify()
+  }
+
+  /**
+   * Score a command against the query. The title is weighted the most and is
+   * the only field highlighted; description, keywords, section and id only
+   * contribute to the ranking.
+   */
+  #matchCommand(command: HotKeyPadCommand, query: string) {
+    if (query.trim() === "") return { score: 0, indices: [] }
+    const titleMatch = fuzzyMatch(query, command.title)
+    const fields = [command.description, ...(command.keywords ?? []), command.section, command.id]
+    const fieldScores = fields
+      .map((field) => (field ? fuzzyMatch(query, field) : null))
+      .map((match) => (match ? match.score * 0.6 : -Infinity))
+    const score = Math.max(titleMatch?.score ?? -Infinity, ...fieldScores)
+    if (score === -Infinity) return null
+    const usage = this.#history[command.id]?.count ?? 0
+    return { score: score + Math.log2(1 + usage) * 2, indices: titleMatch?.indices ?? [] }
+  }
+
+  /**
+   * Build a listed item. `parents` holds the ids of the commands with children,
+   * collected once per recompute.
+   */
+  #toItem(
+    command: HotKeyPadCommand,
+    match: { score: number; indices: number[] },
+    parents: Set<string | undefined>
+  ): CommandPaletteItem {
+    return {
+      command,
+      hotkey: this.#effectiveHotkey(command),
+      indices: match.indices,
+      score: match.score,
+      isEnabled: this.#isEnabled(command),
+      hasChildren: parents.has(command.id)
+    }
+  }
+
+  /**
+   * Group the commands of the current page by section, ordering items and
+   * sections by relevance and falling back to the registration order.
+   */
+  #computeSections(): CommandPaletteSection[] {
+    if (this.#prompt) return this.#choiceSections(this.#prompt.choices)
+    if (this.#mode === MODES_MODE) return this.#choiceSections(this.#modeChoices())
+    const page = this.#pages.at(-1)
+    const byRelevance = (a: { score: number; index: number }, b: { score: number; index: number }) =>
+      b.score - a.score || a.index - b.index
+
+    const commands = this.#allCommands
+    const parents = new Set(commands.map(({ parent }) => parent))
+    const provided = new Set(this.#providerCommands)
+    const groups = new Map<string, { index: number; items: Array<CommandPaletteItem & { index: number }> }>()
+    commands.forEach((command, index) => {
+      const isProvided = provided.has(command)
+      if (command.parent !== page || !this.#isListed(command) || !this.#isInMode(command, isProvided)) return
+      const match = this.#matchCommand(command, this.#query) ?? (isProvided ? { score: 0, indices: [] } : null)
+      if (!match) return
+
+      const name = this.#sectionOf(command)
+      const group = groups.get(name) ?? { index, items: [] }
+      group.items.push({ ...this.#toItem(command, match, parents), index })
+      groups.set(name, group)
+    })
+
+    const sections = Array.from(groups, ([name, { index, items }]) => ({
+      name,
+      isRecent: false,
+      index,
+      score: Math.max(...items.map(({ score }) => score)),
+      items: items.sort(byRelevance).map(({ index: _, ...item }) => item)
+    }))
+      .sort(byRelevance)
+      .map(({ name, isRecent, items }) => ({ name, isRecent, items }))
+
+    const recent = this.#recentItems(parents)
+    return recent.length > 0 ? [{ name: "Recent", isRecent: true, items: recent }, ...sections] : sections
+  }
+
+  #recentItems(parents: Set<string | undefined>) {
+    if (this.#pages.length > 0 || this.#mode || this.#recentLimit === 0 || this.#query.trim() !== "") return []
+    const commands = new Map(this.#commands.map((command) => [command.id, command]))
+    return Object.entries(this.#history)
+      .sort(([, a], [, b]) => b.lastUsed - a.lastUsed)
+      .map(([id]) => commands.get(id))
+      .filter((command): command is HotKeyPadCommand => command != null)
+      .slice(0, this.#recentLimit)
+      .filter((command) => this.#isListed(command))
+      .map((command) => this.#toItem(command, { score: 0, indices: [] }, parents))
+  }
+
+  #isInMode(command: HotKeyPadCommand, isProvided: boolean) {
+    if (!this.#mode) return true
+    if (this.#mode.provider) return isProvided
+    return this.#mode.filter?.(command) ?? true
+  }
+
+  /**
+   * List the registered modes as choices whose id is the prefix.
+   */
+  #modeChoices(): HotKeyPadCommand[] {
+    return this.#modes.map(({ prefix, title, description }) => ({
+      id: prefix,
+      title: `${prefix} ${title}`,
+      description
+    }))
+  }
+
+  /**
+   * Find the mode whose prefix starts the query, the longest one first.
+   */
+  #modeOf(query: string) {
+    const modes = this.#modes.length > 0 ? [...this.#modes, MODES_MODE] : []
+    return modes
+      .filter(({ prefix }) => query.startsWith(prefix))
+      .sort((a, b) => b.prefix.length - a.prefix.length)[0]
+  }
+
+  /**
+   * List the choices of the prompted argument matching the query, as items
+   * whose command id is the choice value.
+   */
+  #choiceSections(choices: HotKeyPadCommand[]): CommandPaletteSection[] {
+    const items = choices
+      .map((command) => ({ command, match: this.#query.trim() === "" ? null : fuzzyMatch(this.#query, command.title) }))
+      .filter(({ match }) => this.#query.trim() === "" || match != null)
+      .sort((a, b) => (b.match?.score ?? 0) - (a.match?.score ?? 0))
+      .map(({ command, match }) => ({
+        command,
+        indices: match?.indices ?? [],
+        score: match?.score ?? 0,
+        isEnabled: true,
+        hasChildren: false
+      }))
+    return items.length > 0 ? [{ name: "Unlisted", isRecent: false, items }] : []
+  }
+
+  /* COMMAND METHODS */
+  #flattenCommands(commands: HotKeyPadCommand[], parent?: string): HotKeyPadCommand[] {
+    return commands.flatMap(({ children, ...command }) => {
+      const item = parent != null ? { ...command, parent } : command
+      return children ? [item, ...this.#flattenCommands(children, item.id)] : [item]
+    })
+  }
+
+  /**
+   * Validate commands against each other and the existing ones.
+   * Hotkeys are checked as registered, overrides are pruned afterwards.
+   * Errors point to the manifest entry of the command given by `locateEntry`, if any.
+   */
+  #verifyCommands(
+    commands: HotKeyPadCommand[],
+    existing: HotKeyPadCommand[] = [],
+    locateEntry: (id: string) => string | undefined = () => undefined
+  ) {
+    const all = [...existing, ...commands]
+    const allIds = new Set(all.map(({ id }) => id))
+    const parents = new Set(all.map(({ parent }) => parent))
+    const ids = new Set(existing.map(({ id }) => id))
+    const hotkeys = new Map<string, string>()
+    existing.forEach(({ id, hotkey }) => {
+      const sequence = hotkey != null ? parseHotkeySequence(hotkey) : null
+      if (sequence) hotkeys.set(formatHotkeySequence(sequence), id)
+    })
+
+    commands.forEach((command) => {
+      try {
+        this.#verifyCommand(command, allIds, parents, ids, hotkeys)
+      } catch (error) {
+        const location = locateEntry(command.id)
+        if (location == null || !(error instanceof Error)) throw error
+        throw new Error(`Invalid manifest entry ${location}: ${error.message}`)
+      }
+    })
+    return commands
+  }
+
+  /**
+   * Validate a command. `allIds` and `parents` hold the ids of every command and
+   * of those with children, collected once per validation pass.
+   */
+  #verifyCommand(
+    command: HotKeyPadCommand,
+    allIds: Set<string>,
+    parents: Set<string | undefined>,
+    ids: Set<string>,
+    hotkeys: Map<string, string>
+  ) {
+    if (command.id === "" || command.title === "" || (command.handler == null && !parents.has(command.id)))
+      throw new Error(
+        "The command object is not valid. It should contain an id, title and handler, unless it has children"
+      )
+
+    if (ids.has(command.id)) throw new Error(`A command with the id "${command.id}" already exists`)
+    ids.add(command.id)
+
+    if (command.parent != null && !allIds.has(command.parent))
+      throw new Error(`The parent "${command.parent}" of the command "${command.id}" does not exist`)
+
+    if (command.icon != null && typeof command.icon !== "string") throw new Error("The icon should be a string")
+    if (command.args != null) this.#verifyArguments(command)
+    if (command.secondaryActions != null) this.#verifySecondaryActions(command)
+
+    if (command.hotkey != null) this.#verifyHotkey(command.hotkey, command.id, hotkeys)
+  }
+
+  #verifyArguments({ id, args }: HotKeyPadCommand) {
+    if (!Array.isArray(args)) throw new Error(`The arguments of the command "${id}" should be an array`)
+    const names = new Set<string>()
+    args.forEach((argument) => {
+      if (typeof argument.name !== "string" || argument.name === "")
+        throw new Error(`Every argument of the command "${id}" should have a name`)
+      if (names.has(argument.name))
+        throw new Error(`The command "${id}" has more than one argument named "${argument.name}"`)
+      names.add(argument.name)
+      if (!ARGUMENT_TYPES.includes(argument.type))
+        throw new Error(
+          `The argument "${argument.name}" of the command "${id}" should have a type of ${ARGUMENT_TYPES.join(", ")}`
+        )
+      if (argument.type === "choice" && (!Array.isArray(argument.choices) || argument.choices.length === 0))
+        throw new Error(`The argument "${argument.name}" of the command "${id}" should have choices`)
+    })
+  }
+
+  #verifySecondaryActions({ id, secondaryActions }: HotKeyPadCommand) {
+    if (!Array.isArray(secondaryActions))
+      throw new Error(`The secondary actions of the command "${id}" should be an array`)
+    const ids = new Set<string>()
+    secondaryActions.forEach((action) => {
+      if (!action.id || !action.title || typeof action.handler !== "function")
+        throw new Error(`Every secondary action of the command "${id}" should contain an id, title and handler`)
+      if (ids.has(action.id))
+        throw new Error(`The command "${id}" has more than one secondary action with the id "${action.id}"`)
+      ids.add(action.id)
+    })
+  }
+
+  /**
+   * Validate a hotkey and claim it in the given map of hotkeys to command ids.
+   */
+  #verifyHotkey(hotkey: string, id: string, hotkeys: Map<string, string>) {
+    if (isReservedHotkey(hotkey))
+      throw new Error(`The hotkey "${hotkey}" of the command "${id}" is reserved by the browser or system`)
+
+    if (!isValidHotkey(hotkey))
+      throw new Error(
+        `The hotkey "${hotkey}" is not valid. It should combine CTRL, CMD, ALT or SHIFT with a single letter, digit, symbol, function key or named key. Also it cannot contain browser or system reserved hotkeys such as CTRL+T, CTRL+N, CTRL+W, etc.`
+      )
+
+    const activationKeys = ["Ctrl", "Cmd"].map((key) => `${key}+${this.#activationLetter}`)
+    const sequence = parseHotkeySequence(hotkey) ?? []
+    if (sequence.length === 1 && activationKeys.includes(formatHotkey(sequence[0])))
+      throw new Error(
+        `The hotkey "${hotkey}" conflicts with the activation key. Use it as the start of a sequence instead (e.g. "${activationKeys[0]} S")`
+      )
+
+    const canonical = formatHotkeySequence(sequence)
+    const owner = hotkeys.get(canonical)
+    if (owner != null && owner !== id)
+      throw new Error(`The hotkey "${hotkey}" of the command "${id}" is already used by "${owner}"`)
+    hotkeys.forEach((other, otherHotkey) => {
+      if (other !== id && isOverlapping(canonical, otherHotkey))
+        throw new Error(
+          `The hotkey "${hotkey}" of the command "${id}" conflicts with "${otherHotkey}" of "${other}", as one starts with the other`
+        )
+    })
+    hotkeys.set(canonical, id)
+  }
+
+  #findCommand(id: string) {
+    const command = this.#commands.find((item) => item.id === id)
+    if (!command) throw new Error(`The command "${id}" does not exist`)
+    return command
+  }
+
+  #descendantsOf(id: string): HotKeyPadCommand[] {
+    return this.#commands
+      .filter(({ parent }) => parent === id)
+      .flatMap((child) => [child, ...this.#descendantsOf(child.id)])
+  }
+
+  #isAvailable(command: HotKeyPadCommand) {
+    if (command.scope != null && !this.#scopes.includes(command.scope)) return false
+    return resolvePredicate(command.when, true)
+  }
+
+  #isEnabled(command: HotKeyPadCommand) {
+    return this.#isAvailable(command) && resolvePredicate(command.enabled, true)
+  }
+
+  #isListed(command: HotKeyPadCommand) {
+    return this.#isAvailable(command) && !resolvePredicate(command.hidden, false)
+  }
+
+  #hasChildren(id: string) {
+    return this.#allCommands.some(({ parent }) => parent === id)
+  }
+
+  #sectionOf(command: HotKeyPadCommand) {
+    return typeof command.section !== "string" || command.section === "" ? "Unlisted" : command.section
+  }
+
+  /* PROMPT METHODS */
+  #argumentOf({ command, step }: { command: HotKeyPadCommand; step: number }): HotKeyPadArgument {
+    return (command.args ?? [])[step]
+  }
+
+  /**
+   * Ask for the argument at the given step, starting from its default value.
+   */
+  #askArgument(step: number) {
+    if (!this.#prompt) return
+    this.#prompt.step = step
+    this.#prompt.error = null
+    const argument = this.#argumentOf(this.#prompt)
+    this.#prompt.choices =
+      argument.type === "choice"
+        ? argument.choices.map((choice) => {
+            const { value, label, description, icon }: HotKeyPadChoice =
+              typeof choice === "string" ? { value: choice } : choice
+            return { id: value, title: label ?? value, description, icon }
+          })
+        : []
+    this.#query = argument.default != null ? String(argument.default) : ""
+    this.#cancelProviders()
+    this.#update()
+  }
+
+  /**
+   * Convert and check the value given for an argument.
+   * @returns The value, undefined for an empty optional argument, or why it was rejected
+   */
+  #parseArgument(
+    argument: HotKeyPadArgument,
+    input: string,
+    args: HotKeyPadArgs
+  ): { value?: string | number; error: HotKeyPadArgumentError | null } {
+    const text = input.trim()
+    if (text === "") return { error: argument.optional ? null : { reason: "required" } }
+
+    let value: string | number = text
+    if (argument.type === "number") {
+      value = Number(text)
+      if (!Number.isFinite(value)) return { error: { reason: "number" } }
+      if (argument.min != null && value < argument.min) return { error: { reason: "min", min: argument.min } }
+      if (argument.max != null && value > argument.max) return { error: { reason: "max", max: argument.max } }
+    }
+    if (argument.type === "choice" && !argument.allowCustom && !this.#prompt?.choices.some(({ id }) => id === text))
+      return { error: { reason: "choice" } }
+
+    const message = argument.validate?.(value, args)
+    if (message) return { error: { reason: "invalid", message } }
+    return { value, error: null }
+  }
+
+  #endPrompt() {
+    if (!this.#prompt) return
+    this.#query = this.#prompt.query
+    this.#prompt = null
+  }
+
+  /* HISTORY METHODS */
+  #loadHistory(): { [id: string]: CommandUsage } {
+    try {
+      const history = JSON.parse(this.#storage.getItem(HISTORY_KEY) ?? "{}")
+      return typeof history === "object" && history != null ? history : {}
+    } catch {
+      return {}
+    }
+  }
+
+  #recordUsage(id: string) {
+    const usage = this.#history[id]
+    this.#history[id] = { count: (usage?.count ?? 0) + 1, lastUsed: Date.now() }
+    try {
+      this.#storage.setItem(HISTORY_KEY, JSON.stringify(this.#history))
+    } catch {
+      // Storage may be full or unavailable, history then lives in memory only
+    }
+  }
+
+  /* KEYBINDING METHODS */
+  /**
+   * Validate the overrides against the commands. The hotkeys as registered are
+   * claimed first, then the overrides, and the one of `rebound` last so errors
+   * name the command being rebound.
+   */
+  #verifyKeybindings(keybindings: Map<string, string | null>, rebound?: string) {
+    const hotkeys = new Map<string, string>()
+    const rank = ({ id }: HotKeyPadCommand) => (id === rebound ? 2 : keybindings.has(id) ? 1 : 0)
+    const commands = [...this.#commands].sort((a, b) => rank(a) - rank(b))
+    commands.forEach((command) => {
+      const hotkey = keybindings.has(command.id) ? keybindings.get(command.id) : command.hotkey
+      if (hotkey != null) this.#verifyHotkey(hotkey, command.id, hotkeys)
+    })
+    keybindings.forEach((hotkey, id) => {
+      const isUnknown = !this.#commands.some((command) => command.id === id)
+      if (hotkey != null && isUnknown) this.#verifyHotkey(hotkey, id, hotkeys)
+    })
+    return keybindings
+  }
+
+  #effectiveHotkey(command: HotKeyPadCommand) {
+    if (!this.#keybindings.has(command.id)) return command.hotkey
+    return this.#keybindings.get(command.id) ?? undefined
+  }
+
+  #loadKeybindings() {
+    try {
+      const keybindings = JSON.parse(this.#storage.getItem(KEYBINDINGS_KEY) ?? "{}")
+      return parseKeybindings(keybindings)
+    } catch {
+      return new Map<string, string | null>()
+    }
+  }
+
+  #saveKeybindings() {
+    try {
+      if (this.#keybindings.size === 0) this.#storage.removeItem(KEYBINDINGS_KEY)
+      else this.#storage.setItem(KEYBINDINGS_KEY, JSON.stringify(Object.fromEntries(this.#keybindings)))
+    } catch {
+      // Storage may be full or unavailable, keybindings then live in memory only
+    }
+  }
+
+  /**
+   * Forget the dropped overrides of a command, or of every command when no id
+   * is given, once its keybinding is set again.
+   */
+  #forgetRejectedKeybindings(id?: string) {
+    this.#rejectedKeybindings = id == null ? [] : this.#rejectedKeybindings.filter((rejected) => rejected.id !== id)
+  }
+
+  #applyKeybindings(keybindings: Map<string, string | null>) {
+    this.#keybindings = keybindings
+    this.#saveKeybindings()
+    this.#registerHotkeys()
+    this.#update()
+  }
+
+  /**
+   * Drop the overrides that no longer fit the registered commands, such as a saved
+   * hotkey now taken by the default of a newer command. Defaults are claimed
+   * first, so the stale override is the one to go.
+   */
+  #pruneKeybindings() {
+    const rejected: CommandPaletteRejectedKeybinding[] = []
+    let rejection = this.#findRejectedKeybinding()
+    while (rejection) {
+      this.#keybindings.delete(rejection.id)
+      rejected.push(rejection)
+      rejection = this.#findRejectedKeybinding()
+    }
+    if (rejected.length === 0) return
+    this.#rejectedKeybindings = [
+      ...this.#rejectedKeybindings.filter(({ id }) => !rejected.some((rejection) => rejection.id === id)),
+      ...rejected
+    ]
+    this.#saveKeybindings()
+    this.#onKeybindingsRejected?.(rejected)
+  }
+
+  #findRejectedKeybinding(): CommandPaletteRejectedKeybinding | null {
+    const isOverridden = ({ id }: HotKeyPadCommand) => this.#keybindings.has(id)
+    const commands = [
+      ...this.#commands.filter((command) => !isOverridden(command)),
+      ...this.#commands.filter(isOverridden)
+    ]
+    const hotkeys = new Map<string, string>()
+    for (const command of commands) {
+      const hotkey = this.#effectiveHotkey(command)
+      if (hotkey == null) continue
+      try {
+        this.#verifyHotkey(hotkey, command.id, hotkeys)
+      } catch (error) {
+        if (!isOverridden(command) || !(error instanceof Error)) throw error
+        return { id: command.id, hotkey, error }
+      }
+    }
+    return null
+  }
+
+  /* HOTKEY METHODS */
+  #registerHotkeys() {
+    this.#pruneKeybindings()
+    this.#hotkeys.clear()
+    this.resetChord()
+    this.#commands.forEach((command) => {
+      const hotkey = this.#effectiveHotkey(command)
+      const sequence = hotkey != null ? parseHotkeySequence(hotkey) : null
+      if (!sequence) return
+      const canonical = formatHotkeySequence(sequence)
+      if (!this.#hotkeys.has(canonical)) this.#hotkeys.set(canonical, { sequence, command })
+    })
+  }
+
+  /* PROVIDER METHODS */
+  /**
+   * Debounce the query, abort the previous one still in flight and merge the
+   * providers' results with the static commands once all of them settle. The
+   * previous results stay listed until then, and the active item is kept.
+   */
+  #queryProviders(query: string) {
+    const modeProvider = this.#mode?.provider
+    const providers = modeProvider ? [modeProvider] : this.#mode ? [] : this.#providers
+    if (providers.length === 0 || this.#pages.length > 0 || (query.trim() === "" && !modeProvider)) {
+      this.#cancelProviders()
+      return
+    }
+
+    this.#abortProviders()
+
+    this.#isLoading = true
+    this.#providerTimer = setTimeout(async () => {
+      const controller = new AbortController()
+      this.#providerController = controller
+      const results = await Promise.allSettled(
+        providers.map((provider) => Promise.resolve().then(() => provider(query, controller.signal)))
+      )
+      if (controller.signal.aborted) return
+
+      const commands = results.flatMap((result) =>
+        result.status === "fulfilled" && Array.isArray(result.value) ? result.value : []
+      )
+      this.#providerCommands = this.#verifyProvidedCommands(this.#flattenCommands(commands))
+      this.#providerController = null
+      this.#isLoading = false
+      this.#update(true)
+    }, this.#searchDebounce)
+  }
+
+  /**
+   * Keep the provider results passing the checks of registered commands. Since
+   * a provider cannot fail the search, the others are left out instead of
+   * throwing, such as results reusing the id of another command.
+   */
+  #verifyProvidedCommands(commands: HotKeyPadCommand[]) {
+    const all = [...this.#commands, ...commands]
+    const allIds = new Set(all.map(({ id }) => id))
+    const parents = new Set(all.map(({ parent }) => parent))
+    const ids = new Set(this.#commands.map(({ id }) => id))
+    const hotkeys = new Map<string, string>()
+    this.#commands.forEach((command) => {
+      const hotkey = this.#effectiveHotkey(command)
+      const sequence = hotkey != null ? parseHotkeySequence(hotkey) : null
+      if (sequence) hotkeys.set(formatHotkeySequence(sequence), command.id)
+    })
+    return commands.filter((command) => {
+      try {
+        this.#verifyCommand(command, allIds, parents, ids, hotkeys)
+        return true
+      } catch {
+        return false
+      }
+    })
+  }
+
+  #abortProviders() {
+    if (this.#providerTimer) clearTimeout(this.#providerTimer)
+    this.#providerTimer = null
+    this.#providerController?.abort()
+    this.#providerController = null
+    this.#isLoading = false
+  }
+
+  #cancelProviders() {
+    this.#abortProviders()
+    this.#providerCommands = []
+  }
+
+  /* PUBLIC METHODS */
+  /**
+   * Listen to state changes.
+   * @param subscriber Function called with the new state after every change
+   * @returns A function that unsubscribes
+   */
+  subscribe(subscriber: (state: CommandPaletteState) => void) {
+    this.#subscribers.add(subscriber)
+    return () => {
+      this.#subscribers.delete(subscriber)
+    }
+  }
+
+  /**
+   * Replace the commands, resetting the open pages.
+   * @param commands Array of HotKeyPadCommand objects
+   * @throws Error if commands array is empty or contains invalid commands
+   */
+  setCommands(commands: HotKeyPadCommand[]) {
+    if (this.#isDestroyed) return
+    if (commands.length === 0) throw new Error("The commands array cannot be empty")
+    this.#commands = this.#verifyCommands(this.#flattenCommands(commands))
+    this.#pages = []
+    this.#endPrompt()
+    this.#registerHotkeys()
+    this.#update()
+  }
+
+  /**
+   * Add commands to the ones already set, without replacing them.
+   * @param commands Array of HotKeyPadCommand objects
+   * @returns The added commands, with nested commands flattened
+   * @throws Error if a command is invalid, reuses an existing id or an existing hotkey
+   */
+  addCommands(commands: HotKeyPadCommand[]) {
+    if (this.#isDestroyed) return []
+    const added = this.#verifyCommands(this.#flattenCommands(commands), this.#commands)
+    this.#commands = [...this.#commands, ...added]
+    this.#registerHotkeys()
+    this.#update()
+    return added
+  }
+
+  /**
+   * Remove a command, along with its children. Pages showing them are closed.
+   * @param id The id of the command to remove
+   * @throws Error if no command has the given id
+   */
+  removeCommand(id: string) {
+    if (this.#isDestroyed) return
+    const command = this.#findCommand(id)
+    const removed = [command, ...this.#descendantsOf(id)]
+    this.#commands = this.#commands.filter((item) => !removed.includes(item))
+    this.#registerHotkeys()
+    if (this.#prompt && removed.includes(this.#prompt.command)) this.#endPrompt()
+    if (this.#pages.some((page) => removed.some((item) => item.id === page))) {
+      this.#pages = []
+      this.#query = ""
+      this.#cancelProviders()
+    }
+    this.#update()
+  }
+
+  /**
+   * Update the fields of an existing command.
+   * @param id The id of the command to update
+   * @param patch The fields to change
+   * @throws Error if no command has the given id or the updated command is invalid
+   */
+  updateCommand(id: string, patch: Partial<Omit<HotKeyPadCommand, "id" | "children">>) {
+    if (this.#isDestroyed) return
+    const command = this.#findCommand(id)
+    const others = this.#commands.filter((item) => item !== command)
+    const [updated] = this.#verifyCommands([{ ...command, ...patch }], others)
+    this.#commands = this.#commands.map((item) => (item === command ? updated : item))
+    this.#registerHotkeys()
+    this.#update()
+  }
+
+  /**
+   * Get the registered commands, with nested commands flattened and linked through `parent`.
+   */
+  getCommands(): HotKeyPadCommand[] {
+    return this.#commands.map((command) => ({ ...command }))
+  }
+
+  /**
+   * Change the search query of the current page and query the providers.
+   * On the root page, a query starting with the prefix of a mode enters it.
+   * @param query The new query
+   */
+  setQuery(query: string) {
+    if (this.#isDestroyed || query === this.#query) return
+    const mode = this.#mode || this.#prompt || this.#pages.length > 0 ? null : this.#modeOf(query)
+    if (mode) {
+      this.setMode(mode.prefix, query.slice(mode.prefix.length).trimStart())
+      return
+    }
+    this.#query = query
+    if (this.#prompt) this.#prompt.error = null
+    else this.#queryProviders(query)
+    this.#update()
+  }
+
+  /**
+   * Go back to an open page, clearing the query, any prompt and the mode.
+   * @param depth The number of pages to keep, 0 for the root page
+   */
+  goToPage(depth: number) {
+    const isPrompting = this.#prompt != null && depth === this.#pages.length
+    const isLeavingMode = this.#mode != null && depth === 0
+    if (this.#isDestroyed || (depth >= this.#pages.length && !isPrompting && !isLeavingMode)) return
+    this.#pages = this.#pages.slice(0, Math.max(depth, 0))
+    this.#prompt = null
+    this.#mode = null
+    this.#query = ""
+    this.#cancelProviders()
+    this.#update()
+  }
+
+  /**
+   * Activate a command as if it was picked from the list: a command with
+   * children opens its page, one with arguments prompts for them and any
+   * other is recorded in the history. In the "?" mode, the id is the prefix
+   * of the mode to enter.
+   * @param id The id of the command
+   * @returns The command to execute, or null if it is disabled, opened a page or prompts for arguments
+   */
+  activate(id: string): HotKeyPadCommand | null {
+    if (!this.#isDestroyed && !this.#prompt && this.#mode === MODES_MODE) {
+      if (this.#modes.some(({ prefix }) => prefix === id)) this.setMode(id)
+      return null
+    }
+    const command = this.#allCommands.find((item) => item.id === id)
+    if (this.#isDestroyed || !command || !this.#isEnabled(command)) return null
+    if (this.#hasChildren(command.id)) {
+      this.#pages.push(command.id)
+      this.#prompt = null
+      this.#mode = null
+      this.#query = ""
+      this.#cancelProviders()
+      this.#update()
+      return null
+    }
+    if (command.args && command.args.length > 0) {
+      const query = this.#prompt?.query ?? this.#query
+      this.#prompt = { command, step: 0, args: {}, error: null, choices: [], query }
+      this.#askArgument(0)
+      return null
+    }
+    if (this.#commands.includes(command)) {
+      this.#recordUsage(command.id)
+      this.#update()
+    }
+    return command
+  }
+
+  /**
+   * Submit the query, or the active choice of a choice argument, as the
+   * value of the prompted argument and ask for the next one.
+   * @returns The command and its arguments once they are all valid, otherwise null
+   */
+  submitPrompt(): { command: HotKeyPadCommand; args: HotKeyPadArgs } | null {
+    const prompt = this.#prompt
+    if (this.#isDestroyed || !prompt) return null
+    const argument = this.#argumentOf(prompt)
+    const choice = argument.type === "choice" ? this.#state.items[this.#activeIndex]?.command.id : undefined
+    const { value, error } = this.#parseArgument(argument, choice ?? this.#query, prompt.args)
+    if (error) {
+      prompt.error = error
+      this.#notify()
+      return null
+    }
+    if (value !== undefined) prompt.args[argument.name] = value
+
+    if (prompt.step + 1 < (prompt.command.args ?? []).length) {
+      this.#askArgument(prompt.step + 1)
+      return null
+    }
+    this.#endPrompt()
+    if (this.#commands.includes(prompt.command)) this.#recordUsage(prompt.command.id)
+    this.#update()
+    return { command: prompt.command, args: prompt.args }
+  }
+
+  /**
+   * Stop asking for arguments and go back to the results.
+   */
+  cancelPrompt() {
+    if (this.#isDestroyed || !this.#prompt) return
+    this.#endPrompt()
+    this.#update()
+  }
+
+  /**
+   * Make the item at the given index the active one.
+   * @param index Index in `state.items`, clamped to the available items
+   */
+  setActiveIndex(index: number) {
+    const count = this.#state.items.length
+    const next = Math.min(Math.max(index, 0), Math.max(count - 1, 0))
+    if (next === this.#activeIndex) return
+    this.#activeIndex = next
+    this.#notify()
+  }
+
+  /**
+   * Move the active item, wrapping around the ends of the list.
+   * @param offset Number of items to move, negative to move up
+   */
+  moveActive(offset: number) {
+    const count = this.#state.items.length
+    if (count === 0) return
+    this.setActiveIndex((((this.#activeIndex + offset) % count) + count) % count)
+  }
+
+  /**
+   * Evaluate the command predicates again and reset the active item.
+   */
+  refresh() {
+    if (this.#isDestroyed) return
+    this.#update()
+  }
+
+  /**
+   * Replace the active scopes with the given one.
+   * @param scope The scope to activate
+   */
+  setScope(scope: string) {
+    if (this.#isDestroyed) return
+    this.#scopes = [scope]
+    this.resetChord()
+    this.#update()
+  }
+
+  /**
+   * Activate a scope on top of the current ones.
+   * @param scope The scope to activate
+   */
+  pushScope(scope: string) {
+    if (this.#isDestroyed) return
+    this.#scopes.push(scope)
+    this.resetChord()
+    this.#update()
+  }
+
+  /**
+   * Deactivate the most recently activated scope.
+   * @returns The deactivated scope, if any
+   */
+  popScope() {
+    if (this.#isDestroyed) return
+    const scope = this.#scopes.pop()
+    this.resetChord()
+    this.#update()
+    return scope
+  }
+
+  /**
+   * Forget which commands were used, emptying the "Recent" section and the ranking boost.
+   */
+  clearHistory() {
+    this.#history = {}
+    try {
+      this.#storage.removeItem(HISTORY_KEY)
+    } catch {
+      // Storage may be unavailable, the history is cleared in memory anyway
+    }
+    this.#update()
+  }
+
+  /**
+   * Change the activation letter hotkeys are checked against.
+   * @param letter The new activation letter
+   */
+  setActivationLetter(letter: string) {
+    if (letter !== "") this.#activationLetter = letter.toUpperCase()
+  }
+
+  /**
+   * Rebind a command to another hotkey, overriding the one it was registered with.
+   * @param id The id of the command
+   * @param hotkey The new hotkey, or null to leave the command without one
+   * @throws Error if the hotkey is not valid, reserved or used by another command
+   */
+  setKeybinding(id: string, hotkey: string | null) {
+    if (this.#isDestroyed) return
+    this.#findCommand(id)
+    const keybindings = this.#verifyKeybindings(new Map(this.#keybindings).set(id, hotkey), id)
+    this.#forgetRejectedKeybindings(id)
+    this.#applyKeybindings(keybindings)
+  }
+
+  /**
+   * Restore the registered hotkey of a command, or of every command when no id is given.
+   * @param id The id of the command
+   */
+  resetKeybinding(id?: string) {
+    if (this.#isDestroyed) return
+    const keybindings = new Map(this.#keybindings)
+    if (id == null) keybindings.clear()
+    else keybindings.delete(id)
+    this.#forgetRejectedKeybindings(id)
+    this.#applyKeybindings(keybindings)
+  }
+
+  /**
+   * Get the keybinding overrides, keyed by command id.
+   */
+  getKeybindings(): { [id: string]: string | null } {
+    return Object.fromEntries(this.#keybindings)
+  }
+
+  /**
+   * List the registered hotkeys grouped by section, followed by the saved
+   * overrides dropped when the commands were registered. Those are flagged when
+   * reserved or clashing with a hotkey in effect: bound twice, or a prefix of
+   * another sequence so only one of the two could ever fire.
+   */
+  getHotkeySections(): CommandPaletteHotkeySection[] {
+    const bound = this.#commands.flatMap((command) => {
+      const hotkey = this.#effectiveHotkey(command)
+      const sequence = hotkey != null ? parseHotkeySequence(hotkey) : null
+      const canonical = sequence ? formatHotkeySequence(sequence) : null
+      return hotkey != null && canonical != null ? [{ command, hotkey, canonical, isRejected: false }] : []
+    })
+    const rejected = this.#rejectedKeybindings.flatMap(({ id, hotkey }) => {
+      const command = this.#commands.find((item) => item.id === id)
+      const sequence = parseHotkeySequence(hotkey)
+      const canonical = sequence ? formatHotkeySequence(sequence) : null
+      return command && canonical != null ? [{ command, hotkey, canonical, isRejected: true }] : []
+    })
+
+    const groups = new Map<string, CommandPaletteHotkey[]>()
+    const hotkeys = [...bound, ...rejected]
+    hotkeys.forEach(({ command, hotkey, canonical, isRejected }) => {
+      const conflicts = bound
+        .filter((other) => other.command !== command && isOverlapping(canonical, other.canonical))
+        .map((other) => other.command)
+      const name = this.#sectionOf(command)
+      const entry = { command, hotkey, conflicts, isReserved: isReservedHotkey(hotkey), isRejected }
+      groups.set(name, [...(groups.get(name) ?? []), entry])
+    })
+    return Array.from(groups, ([name, hotkeys]) => ({ name, hotkeys }))
+  }
+
+  /**
+   * Export the keybinding overrides as JSON.
+   */
+  exportKeybindings() {
+    return JSON.stringify(this.getKeybindings(), null, 2)
+  }
+
+  /**
+   * Replace the keybinding overrides with the ones from an exported JSON.
+   * @param json The JSON produced by exportKeybindings()
+   * @throws Error if the JSON is malformed, or a hotkey is not valid or conflicts with another
+   */
+  importKeybindings(json: string) {
+    if (this.#isDestroyed) return
+    let data: unknown
+    try {
+      data = JSON.parse(json)
+    } catch {
+      throw new Error("The keybindings are not valid JSON")
+    }
+    const keybindings = this.#verifyKeybindings(parseKeybindings(data))
+    this.#forgetRejectedKeybindings()
+    this.#applyKeybindings(keybindings)
+  }
+
+  /**
+   * Match a keyboard event against the next step of every registered sequence.
+   * A complete match is returned to be executed, a partial one waits for the
+   * next key until the chord timeout expires.
+   * @param event The keyboard event
+   * @param filter Optional check to skip hotkeys that should not fire for this event
+   * @returns The match, or null if no hotkey continues with this key
+   */
+  matchHotkey(
+    event: HotkeyEvent,
+    filter: (combo: HotkeyCombo, command: HotKeyPadCommand) => boolean = () => true
+  ): HotkeyMatch | null {
+    if (this.#isDestroyed) return null
+    const step = this.#pendingChord.length
+    const pending = formatHotkeySequence(this.#pendingChord)
+    const candidates = Array.from(this.#hotkeys.values()).filter(
+      ({ sequence, command }) =>
+        sequence.length > step &&
+        formatHotkeySequence(sequence.slice(0, step)) === pending &&
+        matchesHotkey(sequence[step], event) &&
+        filter(sequence[step], command) &&
+        this.#isEnabled(command)
+    )
+
+    if (candidates.length === 0) {
+      if (step === 0) return null
+      this.resetChord()
+      return this.matchHotkey(event, filter)
+    }
+
+    const complete = candidates.find(({ sequence }) => sequence.length === step + 1)
+    if (complete) {
+      this.resetChord()
+      return { status: "complete", command: complete.command }
+    }
+
+    this.#pendingChord.push(candidates[0].sequence[step])
+    if (this.#chordTimer) clearTimeout(this.#chordTimer)
+    this.#chordTimer = setTimeout(() => {
+      const chord = this.#pendingChord
+      this.resetChord()
+      this.#onChordTimeout?.(chord)
+    }, this.#chordTimeout)
+    this.#notify()
+    return { status: "pending" }
+  }
+
+  /**
+   * Drop the keys typed so far of an unfinished hotkey sequence.
+   */
+  resetChord() {
+    if (this.#chordTimer) clearTimeout(this.#chordTimer)
+    this.#chordTimer = null
+    if (this.#pendingChord.length === 0) return
+    this.#pendingChord = []
+    this.#notify()
+  }
+
+  /**
+   * Register an async source of commands queried as the query changes.
+   * Results are merged with the static commands on the root page, outside modes.
+   * @param provider Function receiving the query and an AbortSignal for stale queries
+   * @returns A function that unregisters the provider
+   */
+  registerProvider(provider: HotKeyPadProvider) {
+    this.#providers.push(provider)
+    return () => {
+      this.#providers = this.#providers.filter((item) => item !== provider)
+    }
+  }
+
+  /**
+   * Register a search mode, entered by typing its prefix at the start of the
+   * query on the root page. Once a mode is registered, "?" lists them all.
+   * @param mode The mode
+   * @returns A function that unregisters the mode, leaving it if active
+   * @throws Error if the prefix is empty, "?" or already registered
+   */
+  registerMode(mode: HotKeyPadMode) {
+    if (typeof mode.prefix !== "string" || mode.prefix.trim() === "" || mode.prefix === MODES_PREFIX)
+      throw new Error(`The prefix of a mode should be a non-empty string other than "${MODES_PREFIX}"`)
+    if (this.#modes.some(({ prefix }) => prefix === mode.prefix))
+      throw new Error(`A mode with the prefix "${mode.prefix}" already exists`)
+    this.#modes.push(mode)
+    return () => {
+      this.#modes = this.#modes.filter((item) => item !== mode)
+      if (this.#mode === mode || (this.#mode === MODES_MODE && this.#modes.length === 0)) this.goToPage(0)
+    }
+  }
+
+  /**
+   * Enter a registered mode on the root page, or go back to the default search.
+   * @param prefix The prefix of the mode, "?" to list the modes, or null to leave the mode
+   * @param query The query to search in the mode
+   * @throws Error if no mode has the given prefix
+   */
+  setMode(prefix: string | null, query = "") {
+    if (this.#isDestroyed) return
+    const mode = prefix == null ? null : this.#modeOf(prefix)
+    if (prefix != null && mode?.prefix !== prefix) throw new Error(`The mode "${prefix}" is not registered`)
+    this.#pages = []
+    this.#prompt = null
+    this.#mode = mode ?? null
+    this.#query = query
+    this.#cancelProviders()
+    this.#queryProviders(query)
+    this.#update()
+  }
+
+  /**
+   * Register a handler by name, for manifest commands to reference as their action.
+   * Registering a name again replaces the action for the manifests loaded afterwards.
+   * @param name The name of the action
+   * @param action Function receiving the args of the action in the manifest and the handler context
+   * @returns A function that unregisters the action
+   */
+  registerAction(name: string, action: HotKeyPadAction) {
+    this.#actions.set(name, action)
+    return () => {
+      if (this.#actions.get(name) === action) this.#actions.delete(name)
+    }
+  }
+
+  /**
+   * Load commands from a JSON manifest, resolving their handlers from the registered actions.
+   * They replace the commands of the previously loaded manifest, other commands are kept.
+   * @param manifest The manifest, as JSON or already parsed
+   * @returns The loaded commands, with nested commands flattened
+   * @throws Error pointing to the offending entry if the manifest is malformed, references an
+   * unregistered action or contains an invalid command
+   */
+  loadManifest(manifest: string | HotKeyPadManifest) {
+    if (this.#isDestroyed) return []
+    const entries = parseManifest(manifest, this.#actions)
+    const paths = new Map(entries.map(({ path, command }) => [command.id, path]))
+    const kept = this.#commands.filter(({ id }) => !this.#manifestIds.has(id))
+    const commands = entries.map(({ command }) => command)
+    const loaded = this.#verifyCommands(commands, kept, (id) => paths.get(id))
+    this.#commands = [...kept, ...loaded]
+    this.#manifestIds = new Set(loaded.map(({ id }) => id))
+    this.#pages = []
+    this.#endPrompt()
+    this.#registerHotkeys()
+    this.#update()
+    return loaded
+  }
+
+  /**
+   * Export as a JSON manifest the commands running a named action and those only holding children.
+   * Commands with a plain handler function cannot be serialized and are left out.
+   */
+  exportManifest() {
+    return JSON.stringify(toManifest(this.#commands), null, 2)
+  }
+
+  /**
+   * Stop the timers and pending providers, and drop the commands and subscribers.
+   * After calling destroy(), the instance should not be used.
+   */
+  destroy() {
+    if (this.#isDestroyed) return
+    this.resetChord()
+    this.#cancelProviders()
+    this.#isDestroyed = true
+    this.#subscribers.clear()
+    this.#commands = []
+    this.#providers = []
+    this.#modes = []
+    this.#mode = null
+    this.#pages = []
+    this.#prompt = null
+    this.#sections = []
+    this.#hotkeys.clear()
+    this.#rejectedKeybindings = []
+  }
+
+  /* GETTERS */
+  /**
+   * Get the current state. The object is replaced, never mutated, on every change.
+   */
+  get state() {
+    return this.#state
+  }
+
+  get #allCommands() {
+    return [...this.#commands, ...this.#providerCommands]
+  }
+}
@@ -0,0 +1,63 @@
+import type { HotKeyPadCommand } from "./types"
+
+const COMMAND_ATTRIBUTE = "data-hotkeypad-command"
+const COMMAND_SELECTOR = `[${COMMAND_ATTRIBUTE}]`
+const DECLARED_IDS = new WeakMap<HTMLElement, string>()
+let declaredCount = 0
+
+/**
+ * Attributes declaring a command on an element, watched for changes.
+ */
+export const DECLARATIVE_ATTRIBUTES = [COMMAND_ATTRIBUTE, "data-hotkeypad-hotkey", "data-hotkeypad-section"]
+
+/**
+ * Find the elements declaring a command in a root, the root included
+ * @param root The element, document or shadow root to search
+ * @returns The marked elements, in document order
+ */
+export function findDeclaredElements(root: HTMLElement | Document | ShadowRoot) {
+  const elements = Array.from(root.querySelectorAll<HTMLElement>(COMMAND_SELECTOR))
+  return root instanceof HTMLElement && root.matches(COMMAND_SELECTOR) ? [root, ...elements] : elements
+}
+
+/**
+ * Check if a mutation adds, removes or changes an element declaring a command
+ * @param mutation The mutation record
+ */
+export function isDeclarativeMutation(mutation: MutationRecord) {
+  if (mutation.type === "attributes") return true
+  const nodes = [...Array.from(mutation.addedNodes), ...Array.from(mutation.removedNodes)]
+  return nodes.some(
+    (node) => node instanceof Element && (node.matches(COMMAND_SELECTOR) || node.querySelector(COMMAND_SELECTOR))
+  )
+}
+
+/**
+ * Build the command declared by an element. Its id is the element id, or a
+ * generated one kept for the lifetime of the element.
+ * @param element The element marked with `data-hotkeypad-command`
+ * @returns A command whose handler clicks the element, following links
+ * @example
+ * // <a href="/settings" data-hotkeypad-command="Open settings" data-hotkeypad-hotkey="g s">Settings</a>
+ * commandFromElement(link) // { id: "hotkeypad-declared-1", title: "Open settings", hotkey: "g s", ... }
+ */
+export function commandFromElement(element: HTMLElement): HotKeyPadCommand {
+  const id = DECLARED_IDS.get(element) ?? (element.id || `hotkeypad-declared-${++declaredCount}`)
+  DECLARED_IDS.set(element, id)
+  return {
+    id,
+    title: element.getAttribute(COMMAND_ATTRIBUTE) || element.textContent?.trim() || "",
+    hotkey: element.getAttribute("data-hotkeypad-hotkey") || undefined,
+    section: element.getAttribute("data-hotkeypad-section") || undefined,
+    when: () => element.isConnected,
+    enabled: () => !element.matches(":disabled") && element.getAttribute("aria-disabled") !== "true",
+    handler: () => element.click()
+  }
+}
+
+/**
+ * Check if two commands declared by the same element list the same way
+ */
+export function isSameDeclaration(a: HotKeyPadCommand, b: HotKeyPadCommand) {
+  return a.title === b.title && a.hotkey === b.hotkey && a.section === b.section
+}
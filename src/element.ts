@@ -0,0 +1,128 @@
+import HotKeyPad from "./index"
+import type { HotKeyPadCommand, HotKeyPadOptionsProps } from "./types"
+import { createElement } from "./utils"
+
+const STYLESHEETS = ["./styles/reset.css", "./styles/index.css"]
+
+const ATTRIBUTE_OPTIONS = {
+  placeholder: "placeholder",
+  "activation-letter": "activationLetter",
+  "close-key": "closeKey",
+  "empty-message": "emptyMessage",
+  theme: "theme",
+  "command-root": "commandRoot"
+} as const
+
+/** Attributes only read when the keypad is created. */
+const CONSTRUCTOR_ATTRIBUTES = ["command-root"]
+
+/**
+ * <hotkey-pad> - HotKeyPad as a custom element.
+ *
+ * Renders the keypad in its shadow root with the package styles. Options are
+ * read from attributes and updated live, except `command-root` which is read
+ * on connect, commands are set through the `commands` property. The `hotkeypad:*` events bubble out of the shadow root
+ * and can be listened for on the element itself.
+ *
+ * @example
+ * ```html
+ * <hotkey-pad placeholder="Type a command" activation-letter="J"></hotkey-pad>
+ * <script type="module">
+ *   import "hotkeypad/element"
+ *   const element = document.querySelector("hotkey-pad")
+ *   element.commands = [{ id: "print", title: "Print Page", hotkey: "Ctrl+P", handler: () => window.print() }]
+ *   element.addEventListener("hotkeypad:executed", (event) => console.log(event.detail.id))
+ * </script>
+ * ```
+ */
+export class HotKeyPadElement extends HTMLElement {
+  static observedAttributes = Object.keys(ATTRIBUTE_OPTIONS).filter(
+    (attribute) => !CONSTRUCTOR_ATTRIBUTES.includes(attribute)
+  )
+
+  #root: ShadowRoot
+  #hotkeypad: HotKeyPad | null = null
+  #commands: HotKeyPadCommand[] = []
+
+  constructor() {
+    super()
+    this.#root = this.attachShadow({ mode: "open" })
+    STYLESHEETS.forEach((href) => {
+      const link = createElement("link", { rel: "stylesheet", href: new URL(href, import.meta.url).href })
+      this.#root.appendChild(link)
+    })
+  }
+
+  connectedCallback() {
+    if (this.#hotkeypad) return
+    this.#hotkeypad = new HotKeyPad({ target: this.#root, ...this.#attributeOptions })
+    if (this.#commands.length > 0) this.#hotkeypad.setCommands(this.#commands)
+  }
+
+  disconnectedCallback() {
+    this.#hotkeypad?.destroy()
+    this.#hotkeypad = null
+  }
+
+  attributeChangedCallback(name: keyof typeof ATTRIBUTE_OPTIONS, _oldValue: string | null, value: string | null) {
+    if (value == null) return
+    this.#hotkeypad?.setOptions({ [ATTRIBUTE_OPTIONS[name]]: value })
+  }
+
+  get #attributeOptions() {
+    const options: HotKeyPadOptionsProps = {}
+    Object.entries(ATTRIBUTE_OPTIONS).forEach(([attribute, option]) => {
+      const value = this.getAttribute(attribute)
+      if (value != null) Object.assign(options, { [option]: value })
+    })
+    return options
+  }
+
+  /**
+   * The commands displayed in the keypad.
+   */
+  get commands(): HotKeyPadCommand[] {
+    return this.#hotkeypad?.getCommands() ?? this.#commands
+  }
+
+  set commands(commands: HotKeyPadCommand[]) {
+    this.#commands = commands
+    this.#hotkeypad?.setCommands(commands)
+  }
+
+  /**
+   * The underlying HotKeyPad instance, null while the element is disconnected.
+   */
+  get hotkeypad() {
+    return this.#hotkeypad
+  }
+
+  /**
+   * Open the keypad, optionally in a mode and with a query.
+   */
+  open(options: { mode?: string; query?: string } = {}) {
+    this.#hotkeypad?.open(options)
+  }
+
+  /**
+   * Open the keypad on the cheat sheet of its hotkeys.
+   */
+  showCheatSheet() {
+    this.#hotkeypad?.showCheatSheet()
+  }
+
+  /**
+   * Close the keypad.
+   */
+  close() {
+    this.#hotkeypad?.close()
+  }
+}
+
+if (!customElements.get("hotkey-pad")) customElements.define("hotkey-pad", HotKeyPadElement)
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "hotkey-pad": HotKeyPadElement
+  }
+}
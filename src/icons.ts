@@ -0,0 +1,125 @@
+const ALLOWED_TAGS = new Set([
+  "svg",
+  "g",
+  "path",
+  "circle",
+  "ellipse",
+  "line",
+  "polyline",
+  "polygon",
+  "rect",
+  "defs",
+  "lineargradient",
+  "radialgradient",
+  "stop",
+  "clippath",
+  "mask",
+  "symbol",
+  "use",
+  "title",
+  "desc",
+  "img",
+  "i",
+  "span"
+])
+const SAFE_SCHEME = /^(https?:|data:image\/)/i
+const ANY_SCHEME = /^[a-z][\w+.-]*:/i
+const ICON_REQUESTS = new Map<string, Promise<string | null>>()
+
+function svg(content: string) {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">${content}</svg>`
+}
+
+/**
+ * Icons bundled with the package, usable by name in a command's `icon`.
+ * They are drawn with `currentColor` and follow `--hotkeypad-icon-color`.
+ */
+export const ICONS: { [name: string]: string } = {
+  "arrow-right": svg('<path d="M5 12h14M13 6l6 6-6 6"/>'),
+  bell: svg('<path d="M6 16v-5a6 6 0 0 1 12 0v5l2 2H4z"/><path d="M10 21h4"/>'),
+  close: svg('<path d="M6 6l12 12M18 6 6 18"/>'),
+  copy: svg('<rect x="9" y="9" width="12" height="12" rx="2"/><path d="M5 15H3V3h12v2"/>'),
+  download: svg('<path d="M12 3v12M7 10l5 5 5-5M4 21h16"/>'),
+  edit: svg('<path d="M4 20h4L19 9l-4-4L4 16z"/>'),
+  file: svg('<path d="M14 3H6v18h12V7z"/><path d="M14 3v4h4"/>'),
+  folder: svg('<path d="M3 6h6l2 2h10v11H3z"/>'),
+  home: svg('<path d="M3 11 12 4l9 7"/><path d="M5 10v10h14V10"/>'),
+  keyboard: svg('<rect x="2" y="6" width="20" height="12" rx="2"/><path d="M6 10h0M10 10h0M14 10h0M18 10h0M7 14h10"/>'),
+  link: svg('<path d="M10 14a4 4 0 0 0 6 0l3-3a4 4 0 0 0-6-6l-1 1"/><path d="M14 10a4 4 0 0 0-6 0l-3 3a4 4 0 0 0 6 6l1-1"/>'),
+  logout: svg('<path d="M9 21H4V3h5M16 17l5-5-5-5M21 12H9"/>'),
+  mail: svg('<rect x="3" y="5" width="18" height="14" rx="2"/><path d="m3 7 9 6 9-6"/>'),
+  moon: svg('<path d="M20 14.5A8 8 0 1 1 9.5 4a6.5 6.5 0 0 0 10.5 10.5z"/>'),
+  plus: svg('<path d="M12 5v14M5 12h14"/>'),
+  print: svg('<path d="M6 9V3h12v6"/><rect x="3" y="9" width="18" height="8" rx="1"/><path d="M6 14h12v7H6z"/>'),
+  search: svg('<circle cx="11" cy="11" r="7"/><path d="m20 20-4-4"/>'),
+  settings: svg('<path d="M4 6h10M18 6h2M4 12h4M12 12h8M4 18h12"/><circle cx="16" cy="6" r="2"/><circle cx="10" cy="12" r="2"/><circle cx="18" cy="18" r="2"/>'),
+  star: svg('<path d="m12 3 2.8 5.7 6.2.9-4.5 4.4 1 6.2-5.5-2.9-5.5 2.9 1-6.2L3 9.6l6.2-.9z"/>'),
+  sun: svg('<circle cx="12" cy="12" r="4"/><path d="M12 2v2M12 20v2M2 12h2M20 12h2M4.9 4.9l1.4 1.4M17.7 17.7l1.4 1.4M4.9 19.1l1.4-1.4M17.7 6.3l1.4-1.4"/>'),
+  trash: svg('<path d="M4 7h16M9 7V4h6v3M6 7l1 14h10l1-14"/>'),
+  upload: svg('<path d="M12 21V9M7 14l5-5 5 5M4 3h16"/>'),
+  user: svg('<circle cx="12" cy="8" r="4"/><path d="M4 21a8 8 0 0 1 16 0"/>')
+}
+
+/**
+ * Add icons to the bundled registry, replacing any with the same name
+ * @param icons The SVG markup of each icon, keyed by name
+ * @example
+ * registerIcons({ rocket: '<svg viewBox="0 0 24 24">...</svg>' })
+ */
+export function registerIcons(icons: { [name: string]: string }) {
+  Object.assign(ICONS, icons)
+}
+
+function isSafeAttribute(tag: string, name: string, value: string) {
+  if (name.startsWith("on")) return false
+  if (name === "href" || name === "xlink:href") return value.trim().startsWith("#")
+  if (name === "src") {
+    const src = value.trim()
+    return tag === "img" && (SAFE_SCHEME.test(src) || !ANY_SCHEME.test(src))
+  }
+  if (name === "style") return !/url\s*\(|expression\s*\(|javascript:/i.test(value)
+  return !/^\s*javascript:/i.test(value)
+}
+
+/**
+ * Parse icon markup keeping only SVG shapes, images and icon font tags,
+ * without scripts, event handlers or external references
+ * @param markup The icon markup
+ * @returns The sanitized icon element, or null if nothing safe is left
+ * @example
+ * sanitizeIcon('<svg onload="alert(1)"><path d="M0 0h24"/></svg>') // <svg><path d="M0 0h24"></path></svg>
+ */
+export function sanitizeIcon(markup: string): Element | null {
+  const template = document.createElement("template")
+  template.innerHTML = markup.trim()
+  const root = template.content.firstElementChild
+  if (!root || !ALLOWED_TAGS.has(root.localName.toLowerCase())) return null
+
+  const elements = [root, ...Array.from(root.querySelectorAll("*"))]
+  elements.forEach((element) => {
+    const tag = element.localName.toLowerCase()
+    if (!ALLOWED_TAGS.has(tag)) {
+      element.remove()
+      return
+    }
+    Array.from(element.attributes).forEach(({ name, value }) => {
+      if (!isSafeAttribute(tag, name.toLowerCase(), value)) element.removeAttribute(name)
+    })
+  })
+  return root
+}
+
+/**
+ * Fetch the markup of a remote icon once, sharing the request between callers
+ * @param url The URL of the icon
+ * @returns The markup, or null if the request failed
+ */
+export function fetchIcon(url: string) {
+  const cached = ICON_REQUESTS.get(url)
+  if (cached) return cached
+  const request = fetch(url)
+    .then((response) => (response.ok ? response.text() : null))
+    .catch(() => null)
+  ICON_REQUESTS.set(url, request)
+  return request
+}
@@ -1,11 +1,116 @@
-import type { HotKeyPadCommand, HotKeyPadOptionsProps, StoredListener } from "./types"
-import { createElement, createListener, extractHotkeyLetter, isValidHotkey } from "./utils"
+import type {
+  CommandPaletteHotkey,
+  CommandPaletteItem,
+  CommandPaletteState,
+  HotKeyPadAction,
+  HotKeyPadArgs,
+  HotKeyPadArgumentError,
+  HotKeyPadCommand,
+  HotKeyPadHandlerContext,
+  HotKeyPadIconResolver,
+  HotKeyPadManifest,
+  HotKeyPadMessages,
+  HotKeyPadMode,
+  HotKeyPadOptionsProps,
+  HotKeyPadProvider,
+  HotKeyPadSecondaryAction,
+  HotKeyPadTheme,
+  HotKeyPadTrigger,
+  HotkeyCombo,
+  KeyboardTarget,
+  ListRow,
+  RenderedItem,
+  StoredListener
+} from "./types"
+import { CommandPaletteCore, MODES_PREFIX } from "./core"
+import {
+  createElement,
+  createListener,
+  createMemoryStorage,
+  formatHotkey,
+  formatKeyLabel,
+  getActiveElement,
+  highlightText,
+  hotkeyFromEvent,
+  hotkeyToKeys,
+  isEditableElement,
+  matchesHotkey,
+  parseHotkey,
+  parseHotkeySequence
+} from "./utils"
+import { fetchIcon, ICONS, registerIcons, sanitizeIcon } from "./icons"
+import {
+  commandFromElement,
+  DECLARATIVE_ATTRIBUTES,
+  findDeclaredElements,
+  isDeclarativeMutation,
+  isSameDeclaration
+} from "./declarative"
+import { getMessages, isRtlLocale, LOCALES } from "./locales"
+
+export {
+  CommandPaletteCore,
+  createMemoryStorage,
+  formatHotkey,
+  ICONS,
+  LOCALES,
+  matchesHotkey,
+  parseHotkey,
+  registerIcons
+}
+export type {
+  CommandPaletteCoreOptions,
+  CommandPaletteHotkey,
+  CommandPaletteHotkeySection,
+  CommandPaletteItem,
+  CommandPalettePrompt,
+  CommandPaletteRejectedKeybinding,
+  CommandPaletteSection,
+  CommandPaletteState,
+  HotKeyPadAction,
+  HotKeyPadActionArgs,
+  HotKeyPadActionRef,
+  HotKeyPadArgs,
+  HotKeyPadArgument,
+  HotKeyPadArgumentError,
+  HotKeyPadChoice,
+  HotKeyPadChoiceArgument,
+  HotKeyPadCommand,
+  HotKeyPadHandlerContext,
+  HotKeyPadIconResolver,
+  HotKeyPadManifest,
+  HotKeyPadManifestCommand,
+  HotKeyPadMessages,
+  HotKeyPadMode,
+  HotKeyPadNumberArgument,
+  HotKeyPadOptionsProps,
+  HotKeyPadProvider,
+  HotKeyPadSecondaryAction,
+  HotKeyPadStorage,
+  HotKeyPadTextArgument,
+  HotKeyPadTheme,
+  HotKeyPadTrigger,
+  HotkeyCombo,
+  HotkeyEvent,
+  HotkeyMatch
+} from "./types"
+
+const MOUNTED_ELEMENTS = new WeakSet<HTMLElement>()
+const ACTIVATION_BINDINGS = new Map<KeyboardTarget, Set<string>>()
+const HANDLED_EVENTS = new WeakSet<Event>()
+const THEMES: HotKeyPadTheme[] = ["light", "dark", "system"]
+const ICON_CDN = "https://cdn.simpleicons.org/{name}"
+const ITEM_HEIGHT = 52
+const SECTION_HEIGHT = 32
+const OVERSCAN = 6
+let instanceCount = 0
 
 /**
  * HotKeyPad - A lightweight keyboard shortcuts interface for web applications.
  * 
  * Provides a command palette-style interface for executing keyboard shortcuts.
- * Built with vanilla JS, no external dependencies.
+ * Built with vanilla JS, no external dependencies. The DOM is rendered from the
+ * state of a CommandPaletteCore, available through the `core` getter.
  * 
  * @example
  * ```javascript
@@ -15,7 +120,7 @@ import { createElement, createListener, extractHotkeyLetter, isValidHotkey } fro
  *     id: "print",
  *     title: "Print Page",
  *     hotkey: "Ctrl+P",
- *     handler: () => window.print()
+ *     handler: ({ source }) => window.print()
  *   }
  * ])
  * ```
@@ -24,66 +129,239 @@ export default class HotKeyPad {
   instance: HTMLElement
   #backdrop: HTMLElement | null = null
   #container: HTMLElement | null = null
-  #commands: HotKeyPadCommand[] = []
+  #cheatSheet: HTMLElement | null = null
+  #core: CommandPaletteCore
+  #unsubscribe: () => void
+  #renderedSections: CommandPaletteState["sections"] | null = null
+  #renderedChord = ""
+  #sectionElements = new Map<string, HTMLElement>()
+  #itemElements = new Map<string, RenderedItem>()
+  #visibleItems = new Map<number, HTMLElement>()
+  #rows: ListRow[] = []
+  #itemTops: number[] = []
+  #rowHeights = { item: ITEM_HEIGHT, section: SECTION_HEIGHT }
+  #renderedRange = ""
+  #actionPanel: { index: number; active: number } | null = null
+  #recordHotkey: string | null = null
+  #recording: { id: string; resolve: (hotkey: string | null) => void; reject: (error: unknown) => void } | null =
+    null
   #listeners: StoredListener[] = []
-  currentIndex = 0
 
   #closeKey = "Escape"
   #activationKey: string
   #activationLetter = "K"
-  #placeholder = "Search command"
-  #emptyMessage = "No commands found"
-  #svgIconColor = "black"
-  #observer = new MutationObserver(this.#observeClassChanges.bind(this))
+  #messages: HotKeyPadMessages
+  #dir: "ltr" | "rtl" | null = null
+  #placeholder: string
+  #emptyMessage: string
+  #theme: HotKeyPadTheme = "light"
+  #iconResolver: HotKeyPadIconResolver | null = null
+  #iconCdn: string | null = null
+  #icons = new Map<string, Promise<Element | null>>()
+  #commandRoot: HTMLElement | Document | ShadowRoot | null = document
+  #commandObserver: MutationObserver | null = null
+  #declared = new Map<HTMLElement, HotKeyPadCommand>()
+  #cheatSheetHash: string | null = null
+  #colorScheme: MediaQueryList | null = null
   #isDestroyed = false
+  #keyboardTarget: KeyboardTarget = document
+  #uid = `hotkeypad-${++instanceCount}`
+  #optionCount = 0
+  #previousFocus: HTMLElement | null = null
 
   /**
    * Create a new HotKeyPad instance.
    * @param options Configuration options for the HotKeyPad
-   * @throws Error if #hotkeypad element is not found in the DOM
+   * @throws Error if the target element or the command root is not found in the DOM, the target
+   * is already mounted or another instance uses the same activation key on the same keyboard target
    */
-  constructor({ closeKey, placeholder, emptyMessage, activationLetter }: HotKeyPadOptionsProps = {}) {
-    const element = document.getElementById("hotkeypad")
+  constructor({
+    target,
+    keyboardTarget,
+    locale,
+    messages,
+    dir,
+    closeKey,
+    placeholder,
+    emptyMessage,
+    activationLetter,
+    chordTimeout,
+    searchDebounce,
+    storage,
+    recentLimit,
+    recordHotkey,
+    theme,
+    iconResolver,
+    iconCdn,
+    commandRoot,
+    cheatSheetHash
+  }: HotKeyPadOptionsProps = {}) {
+    const element = this.#resolveTarget(target)
     if (element == null) {
       throw new Error("HotKeyPad instance not found in the DOM")
     }
+    if (MOUNTED_ELEMENTS.has(element)) throw new Error("A HotKeyPad instance is already mounted on this element")
     this.instance = element
+    this.instance.setAttribute("data-hotkeypad", "")
+    if (keyboardTarget) this.#keyboardTarget = keyboardTarget
     this.#activationKey = navigator.userAgent.includes("Macintosh") ? "Cmd" : "Ctrl"
+    this.#messages = { ...getMessages(locale ?? "en"), ...messages }
+    this.#placeholder = this.#messages.placeholder
+    this.#emptyMessage = this.#messages.emptyMessage
+    if (dir === "ltr" || dir === "rtl") this.#dir = dir
+    else if (locale && isRtlLocale(locale)) this.#dir = "rtl"
 
     if (closeKey && closeKey !== "") this.#closeKey = closeKey
     if (placeholder && placeholder !== "") this.#placeholder = placeholder
     if (emptyMessage && emptyMessage !== "") this.#emptyMessage = emptyMessage
     if (activationLetter && activationLetter !== "") this.#activationLetter = activationLetter
+    if (recordHotkey && parseHotkey(recordHotkey)) this.#recordHotkey = recordHotkey
+    if (theme && THEMES.includes(theme)) this.#theme = theme
+    if (iconResolver) this.#iconResolver = iconResolver
+    if (iconCdn) this.#iconCdn = typeof iconCdn === "string" ? iconCdn : ICON_CDN
+    this.#commandRoot =
+      commandRoot !== undefined && commandRoot !== "" ? this.#resolveCommandRoot(commandRoot) : this.#scopeRoot
+    if (cheatSheetHash && cheatSheetHash !== "") this.#cheatSheetHash = cheatSheetHash
 
     this.#checkTagOptions()
+    this.#bindActivationKey()
+    this.#core = new CommandPaletteCore({
+      activationLetter: this.#activationLetter,
+      chordTimeout,
+      searchDebounce,
+      storage,
+      recentLimit,
+      onChordTimeout: ([first]) => {
+        if (!this.#isActivationCombo(first)) return
+        this.#isOpen ? this.close() : this.open()
+      },
+      onKeybindingsRejected: (rejected) => {
+        this.#emit("keybindings", { keybindings: this.#core.getKeybindings(), rejected })
+      }
+    })
+    this.#unsubscribe = this.#core.subscribe((state) => this.#render(state))
+    MOUNTED_ELEMENTS.add(element)
     this.#init()
     return this
   }
 
   /* CONFIGURATION METHODS */
   #init() {
-    const documentListener = createListener(document, "keydown", (event: Event) => {
+    const keyboardListener = createListener(this.#keyboardTarget, "keydown", (event: Event) => {
       const keyEvent = event as KeyboardEvent
-      const keyCode = `Key${this.#activationLetter.toUpperCase()}`
-      if (keyEvent.code === keyCode && (keyEvent.metaKey || keyEvent.ctrlKey)) {
+      if (HANDLED_EVENTS.has(keyEvent)) return
+      if (["Control", "Shift", "Alt", "Meta"].includes(keyEvent.key)) return
+      if (this.#recording) {
+        HANDLED_EVENTS.add(keyEvent)
+        this.#handleRecording(keyEvent)
+        return
+      }
+      const recordCombo = this.#recordHotkey ? parseHotkey(this.#recordHotkey) : null
+      if (recordCombo && this.#isOpen && matchesHotkey(recordCombo, keyEvent)) {
+        keyEvent.preventDefault()
+        HANDLED_EVENTS.add(keyEvent)
+        this.recordKeybinding().catch((error) => {
+          if (this.#emit("error", { error }, true)) console.error(error)
+        })
+        return
+      }
+      const target = keyEvent.composedPath()[0] ?? keyEvent.target
+      const match = this.#core.matchHotkey(keyEvent, (combo, command) => this.#canDispatch(combo, command, target))
+      if (match) {
+        keyEvent.preventDefault()
+        HANDLED_EVENTS.add(keyEvent)
+        if (match.status === "complete") this.#runCommand(match.command, "hotkey", keyEvent)
+        return
+      }
+
+      const isPlainKey = !keyEvent.ctrlKey && !keyEvent.metaKey && !keyEvent.altKey
+      if (keyEvent.key === "?" && isPlainKey && !isEditableElement(target)) {
+        keyEvent.preventDefault()
+        HANDLED_EVENTS.add(keyEvent)
+        this.#isCheatSheetOpen ? this.close() : this.showCheatSheet()
+        return
+      }
+
+      if (this.#isActivation(keyEvent)) {
         keyEvent.preventDefault()
+        HANDLED_EVENTS.add(keyEvent)
         this.#isOpen ? this.close() : this.open()
       }
-      if (keyEvent.key.toLowerCase() === this.#closeKey.toLowerCase()) this.close()
+      if (keyEvent.key.toLowerCase() === this.#closeKey.toLowerCase() && this.#isOpen) this.close()
     })
-    this.#listeners.push(documentListener)
+    this.#listeners.push(keyboardListener)
 
-    this.#observer.observe(this.instance, {
-      attributes: true,
-      attributeFilter: ["class"],
-      childList: false,
-      characterData: false
-    })
+    this.#colorScheme = window.matchMedia?.("(prefers-color-scheme: dark)") ?? null
+    if (this.#colorScheme) {
+      const colorSchemeListener = createListener(this.#colorScheme, "change", () => {
+        if (this.#theme === "system") this.#applyTheme()
+      })
+      this.#listeners.push(colorSchemeListener)
+    }
+    this.#applyTheme()
 
     this.#createBackdrop()
     this.#createContainer()
     this.#createHeader()
     this.#createFooter()
+    this.#createSections()
+    this.#createCheatSheet()
+    this.#render(this.#core.state)
+    this.#setListeners()
+    this.#observeCommands()
+    this.#watchCheatSheetHash()
+  }
+
+  #resolveTarget(target: HotKeyPadOptionsProps["target"]) {
+    if (target == null) return document.getElementById("hotkeypad")
+    if (typeof target === "string") return document.querySelector<HTMLElement>(target)
+    if (target instanceof ShadowRoot) {
+      const existing = target.querySelector<HTMLElement>("#hotkeypad, [data-hotkeypad]")
+      if (existing) return existing
+      const element = createElement("div", { id: "hotkeypad" })
+      target.appendChild(element)
+      return element
+    }
+    return target
+  }
+
+  /**
+   * The scope the instance lives in: its keyboard target when it is not the document,
+   * otherwise the shadow root it is rendered in, otherwise the document.
+   */
+  get #scopeRoot() {
+    if (this.#keyboardTarget !== document) return this.#keyboardTarget
+    const root = this.instance.getRootNode()
+    return root instanceof ShadowRoot ? root : document
+  }
+
+  #resolveCommandRoot(root: HotKeyPadOptionsProps["commandRoot"]) {
+    if (typeof root !== "string") return root ?? null
+    const element = document.querySelector<HTMLElement>(root)
+    if (element == null) throw new Error("The command root was not found in the DOM")
+    return element
+  }
+
+  #bindActivationKey() {
+    const bindings = ACTIVATION_BINDINGS.get(this.#keyboardTarget) ?? new Set<string>()
+    const letter = this.#activationLetter.toUpperCase()
+    if (bindings.has(letter))
+      throw new Error(
+        `Another HotKeyPad instance already uses ${this.#activationKey}+${letter} on this keyboard target. Set a different activationLetter`
+      )
+    bindings.add(letter)
+    ACTIVATION_BINDINGS.set(this.#keyboardTarget, bindings)
+  }
+
+  #unbindActivationKey() {
+    const bindings = ACTIVATION_BINDINGS.get(this.#keyboardTarget)
+    bindings?.delete(this.#activationLetter.toUpperCase())
+    if (bindings?.size === 0) ACTIVATION_BINDINGS.delete(this.#keyboardTarget)
+  }
+
+  #emit(name: string, detail?: object, cancelable = false) {
+    const event = new CustomEvent(`hotkeypad:${name}`, { detail, cancelable, bubbles: true, composed: true })
+    return this.instance.dispatchEvent(event)
   }
 
   #checkTagOptions() {
@@ -104,164 +382,338 @@ export default class HotKeyPad {
       const attr = this.instance.getAttribute("data-close-key")
       if (attr) this.#closeKey = attr.toUpperCase()
     }
-  }
 
-  #observeClassChanges(event: MutationRecord[]) {
-    if (event.length === 0) return
-    const { attributeName, target } = event[0]
-    if (attributeName === "class") {
-      if ((target as Element).classList.contains("dark")) this.#svgIconColor = "white"
-      else this.#svgIconColor = "black"
-      this.#renderCommands()
+    if (this.instance.hasAttribute("data-command-root") && this.instance.getAttribute("data-command-root") !== "") {
+      const attr = this.instance.getAttribute("data-command-root")
+      if (attr) this.#commandRoot = this.#resolveCommandRoot(attr)
+    }
+
+    if (
+      this.instance.hasAttribute("data-cheat-sheet-hash") &&
+      this.instance.getAttribute("data-cheat-sheet-hash") !== ""
+    ) {
+      const attr = this.instance.getAttribute("data-cheat-sheet-hash")
+      if (attr) this.#cheatSheetHash = attr
     }
   }
 
-  #setListeners() {
-    if (!this.#container) return
+  /**
+   * Register the commands declared in the markup of the command root, and
+   * keep them in sync as marked elements are added, changed or removed.
+   */
+  #observeCommands() {
+    if (!this.#commandRoot) return
+    this.#syncDeclaredCommands()
+    this.#commandObserver = new MutationObserver((mutations) => {
+      const isRelevant = mutations.some(
+        (mutation) => !this.instance.contains(mutation.target) && isDeclarativeMutation(mutation)
+      )
+      if (isRelevant) this.#syncDeclaredCommands()
+    })
+    this.#commandObserver.observe(this.#commandRoot, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      attributeFilter: DECLARATIVE_ATTRIBUTES
+    })
+  }
 
-    const keydownListener = createListener(this.#container, "keydown", (event: Event) => {
-      const keyEvent = event as KeyboardEvent
-      if (keyEvent.metaKey || keyEvent.ctrlKey) {
-        this.#commands.find(({ hotkey, handler }) => {
-          const keyLetter = extractHotkeyLetter(hotkey)
-          if (!keyLetter) return false
-          const keyCode = `Key${keyLetter}`
-          if (keyEvent.code === keyCode) {
-            keyEvent.preventDefault()
-            if (handler != null) setTimeout(() => handler(this.instance), 200)
-            this.close()
-          }
-          return false
-        })
+  #syncDeclaredCommands() {
+    if (!this.#commandRoot || this.#isDestroyed) return
+    const elements = new Set(findDeclaredElements(this.#commandRoot))
+    const registered = new Set(this.#core.getCommands().map(({ id }) => id))
+    this.#declared.forEach(({ id }, element) => {
+      if (elements.has(element)) return
+      this.#declared.delete(element)
+      if (registered.has(id)) this.#core.removeCommand(id)
+    })
+
+    const added: Array<[HTMLElement, HotKeyPadCommand]> = []
+    elements.forEach((element) => {
+      const command = commandFromElement(element)
+      const current = this.#declared.get(element)
+      if (!current || !registered.has(current.id)) added.push([element, command])
+      else if (!isSameDeclaration(current, command)) {
+        const { title, hotkey, section } = command
+        this.#declare(element, command, () => this.#core.updateCommand(command.id, { title, hotkey, section }))
       }
     })
-    this.#listeners.push(keydownListener)
+    if (added.length === 0) return
+    try {
+      this.#core.addCommands(added.map(([, command]) => command))
+      added.forEach(([element, command]) => this.#declared.set(element, command))
+    } catch {
+      added.forEach(([element, command]) => this.#declare(element, command, () => this.#core.addCommands([command])))
+    }
+  }
+
+  #declare(element: HTMLElement, command: HotKeyPadCommand, register: () => void) {
+    try {
+      register()
+      this.#declared.set(element, command)
+    } catch (error) {
+      if (this.#emit("error", { id: command.id, error }, true)) console.error(error)
+    }
+  }
+
+  #setListeners() {
+    if (!this.#container) return
 
     const clickListener = createListener(this.#container, "click", (event: Event) => {
       const mouseEvent = event as MouseEvent
-      const item = mouseEvent.target as HTMLElement
-      if (item.tagName === "LI") this.#activateItem(item)
-      if (item.parentElement?.tagName === "LI") this.#activateItem(item.parentElement)
+      const target = mouseEvent.target as HTMLElement
+      const crumb = target.closest<HTMLElement>("[data-crumb]")
+      if (crumb) this.#core.goToPage(Number(crumb.getAttribute("data-crumb")))
+      const actionEl = target.closest<HTMLElement>("[data-secondary-action]")
+      const panelItem = this.#actionPanel ? this.#core.state.items[this.#actionPanel.index] : null
+      if (actionEl && panelItem) {
+        this.#runSecondaryAction(panelItem, Number(actionEl.getAttribute("data-secondary-action")), "click", event)
+        return
+      }
+      this.#closeActionPanel()
+      const item = target.closest<HTMLElement>("[data-index]")
+      if (item && this.#core.state.prompt) {
+        this.#core.setActiveIndex(Number(item.getAttribute("data-index")))
+        this.#submitPrompt("click", event)
+      } else if (item) this.#activateItem(item, "click", event)
     })
     this.#listeners.push(clickListener)
 
     const mouseoverListener = createListener(this.#container, "mouseover", (event: Event) => {
       const mouseEvent = event as MouseEvent
-      const item = mouseEvent.target as HTMLElement
-      if (item.tagName === "LI") {
-        this.#items.forEach((i) => i.removeAttribute("data-active"))
-        item.setAttribute("data-active", "")
+      const target = mouseEvent.target as HTMLElement
+      const actionEl = target.closest("[data-secondary-action]")
+      if (actionEl && this.#actionPanel) {
+        this.#actionPanel.active = Number(actionEl.getAttribute("data-secondary-action"))
+        this.#renderActionPanel()
       }
+      const item = target.closest("[data-index]")
+      if (item && !this.#actionPanel) this.#core.setActiveIndex(Number(item.getAttribute("data-index")))
     })
     this.#listeners.push(mouseoverListener)
 
+    const sectionsEl = this.#container.querySelector<HTMLElement>("[data-sections]")
+    if (sectionsEl) {
+      const scrollListener = createListener(sectionsEl, "scroll", () => {
+        this.#renderWindow()
+        this.#positionActionPanel()
+      })
+      this.#listeners.push(scrollListener)
+    }
+    const resizeListener = createListener(window, "resize", () => this.#renderWindow())
+    this.#listeners.push(resizeListener)
+
+    const focusListener = createListener(document, "focusin", (event: Event) => {
+      if (!this.#isOpen) return
+      const target = event.composedPath()[0]
+      if (target instanceof Node && this.instance.contains(target)) return
+      this.#focusView()
+    })
+    this.#listeners.push(focusListener)
+
     const navigationListener = createListener(this.#container, "keydown", (event: Event) => {
       const keyEvent = event as KeyboardEvent
-      const items = this.#items
-      this.currentIndex = Array.from(items).findIndex((item) => item.hasAttribute("data-active"))
-      this.currentIndex = this.currentIndex === -1 ? 0 : this.currentIndex
-      let nextIndex = 0
+      if (this.#recording || this.#isCheatSheetOpen) return
+      const { items, activeIndex, pages, prompt, mode } = this.#core.state
 
-      if (keyEvent.key === "Enter") {
+      if (prompt && keyEvent.key.toLowerCase() === this.#closeKey.toLowerCase()) {
         keyEvent.preventDefault()
-        const currentItem = items[this.currentIndex]
-        if (currentItem) {
-          this.#activateItem(currentItem)
-          currentItem.removeAttribute("data-active")
-        }
-        this.currentIndex = 0
+        HANDLED_EVENTS.add(keyEvent)
+        this.#core.cancelPrompt()
+        return
       }
 
-      if (keyEvent.key === "ArrowUp") {
-        keyEvent.preventDefault()
-        nextIndex = this.currentIndex - 1 < 0 ? items.length - 1 : this.currentIndex - 1
+      if (this.#actionPanel) {
+        this.#handleActionPanelKey(keyEvent)
+        return
       }
 
-      if (keyEvent.key === "ArrowDown") {
+      const input = keyEvent.target as HTMLElement
+      if (keyEvent.key === "Backspace" && input instanceof HTMLInputElement && input.value === "") {
+        if ((pages.length === 0 && !mode) || prompt) return
         keyEvent.preventDefault()
-        nextIndex = this.currentIndex + 1 > items.length - 1 ? 0 : this.currentIndex + 1
+        this.#core.goToPage(Math.max(pages.length - 1, 0))
+        return
       }
 
-      if (keyEvent.key === "Tab") {
+      if (keyEvent.key === "Enter") {
         keyEvent.preventDefault()
-        nextIndex = this.currentIndex + 1 > items.length - 1 ? 0 : this.currentIndex + 1
+        if (prompt) {
+          this.#submitPrompt("enter", event)
+          return
+        }
+        const currentItem = items[activeIndex]
+        const position = this.#secondaryActionOf(keyEvent)
+        if (currentItem?.command.secondaryActions?.[position]) {
+          HANDLED_EVENTS.add(keyEvent)
+          this.#runSecondaryAction(currentItem, position, "enter", event)
+        } else if (currentItem) this.#runCommand(currentItem.command, "enter", event)
+        return
       }
 
-      const currentItem = items[this.currentIndex]
-      const nextItem = items[nextIndex]
-      if (currentItem) currentItem.removeAttribute("data-active")
-      if (nextItem) {
-        nextItem.setAttribute("data-active", "")
-        nextItem.scrollIntoView({ behavior: "smooth" })
+      const isCaretAtEnd = input instanceof HTMLInputElement && input.selectionStart === input.value.length
+      const isPanelKey = keyEvent.key === this.#actionPanelKeys.open && isCaretAtEnd && !prompt
+      if (isPanelKey && this.#openActionPanel(activeIndex)) {
+        keyEvent.preventDefault()
+        return
       }
+
+      let offset = 0
+      if (keyEvent.key === "ArrowUp" || (keyEvent.key === "Tab" && keyEvent.shiftKey)) offset = -1
+      else if (keyEvent.key === "ArrowDown" || keyEvent.key === "Tab") offset = 1
+      if (offset === 0) return
+
+      keyEvent.preventDefault()
+      this.#core.moveActive(offset)
+      this.#scrollToItem(this.#core.state.activeIndex)
     })
     this.#listeners.push(navigationListener)
 
     const inputListener = createListener(this.#container, "input", (event: Event) => {
-      const inputEvent = event as InputEvent
-      const input = inputEvent.target as HTMLInputElement
-      const value = input.value.toLowerCase()
-      const sections = this.#container?.querySelectorAll<HTMLElement>("[data-section]")
-      const emptySection = this.#container?.querySelector<HTMLElement>("[data-empty]")
-      
-      if (!sections || !emptySection) return
-
-      sections.forEach((section) => {
-        const list = section.querySelector("ul")
-        if (!list) return
-        const items = list.querySelectorAll("li")
-
-        items.forEach((item) => {
-          const titleEl = item.querySelector("p")
-          const title = titleEl?.innerText?.toLowerCase() ?? ""
-          if (title.includes(value)) item.style.display = "flex"
-          else item.style.display = "none"
-        })
-
-        const visibleItems = list.querySelectorAll("li[style='display: flex;']")
-        if (visibleItems.length === 0) section.style.display = "none"
-        else section.style.display = "block"
-      })
-
-      const visibleSections = this.#container?.querySelectorAll<HTMLElement>("[data-section][style='display: block;']")
-      if (visibleSections && visibleSections.length === 0) emptySection.style.display = "flex"
-      else emptySection.style.display = "none"
+      const input = event.target as HTMLInputElement
+      this.#core.setQuery(input.value)
     })
     this.#listeners.push(inputListener)
   }
 
   /* HELPER METHODS */
-  #activateItem(item: HTMLElement) {
-    this.#commands.find(({ hotkey, handler }) => {
-      if (item.getAttribute("data-hotkey") === hotkey) {
-        if (handler != null) setTimeout(() => handler(this.instance), 200)
-        this.close()
-      }
-      return false
-    })
+  #activateItem(item: HTMLElement, source: HotKeyPadTrigger, event: Event) {
+    const activeItem = this.#core.state.items[Number(item.getAttribute("data-index"))]
+    if (activeItem) this.#runCommand(activeItem.command, source, event)
   }
 
-  #verifyCommands(commands: HotKeyPadCommand[]) {
-    if (commands.length === 0) throw new Error("The commands array cannot be empty")
-    commands.forEach((command) => {
-      if (command.id === "" || command.title === "" || command.hotkey === "" || command.handler == null)
-        throw new Error("The command object is not valid. It should contain an id, title, hotkey and handler")
+  #runCommand(command: HotKeyPadCommand, source: HotKeyPadTrigger, event: Event) {
+    const runnable = this.#core.activate(command.id)
+    if (runnable) {
+      this.#executeCommand(runnable, source, event)
+      return
+    }
+    const { pages, prompt } = this.#core.state
+    const isPage = pages.at(-1)?.id === command.id || prompt?.command.id === command.id
+    if (!this.#isOpen && isPage) this.open()
+  }
 
-      if (!isValidHotkey(command.hotkey))
-        throw new Error(
-          "The hotkey is not valid. It should only contain CTRL, CMD, ALT, SHIFT and a letter. Also it cannot contain browser or system reserved hotkeys such as CTRL+T, CTRL+N, CTRL+W, etc."
-        )
+  #submitPrompt(source: HotKeyPadTrigger, event: Event) {
+    const submitted = this.#core.submitPrompt()
+    if (submitted) this.#executeCommand(submitted.command, source, event, submitted.args)
+  }
 
-      if (command.icon != null && typeof command.icon !== "string") throw new Error("The icon should be a string")
+  #runSecondaryAction(item: CommandPaletteItem, position: number, source: HotKeyPadTrigger, event: Event) {
+    const secondaryAction = item.command.secondaryActions?.[position]
+    if (!item.isEnabled || !secondaryAction) return
+    this.#closeActionPanel()
+    this.#executeCommand(item.command, source, event, {}, secondaryAction)
+  }
 
-      const keys = command.hotkey.match(/\w+/g) ?? []
-      if (keys.length > 2) throw new Error("The hotkey only supports 2 keys maximum")
+  /**
+   * Hotkeys running the secondary actions of the active item, by position:
+   * Shift+Enter for the first one, Ctrl+Enter (Cmd+Enter on macOS) for the second.
+   */
+  get #secondaryHotkeys() {
+    return ["Shift+Enter", `${this.#activationKey}+Enter`]
+  }
+
+  #secondaryActionOf(event: KeyboardEvent) {
+    return this.#secondaryHotkeys.findIndex((hotkey) => {
+      const combo = parseHotkey(hotkey)
+      return combo != null && matchesHotkey(combo, event)
     })
-    return commands
+  }
+
+  /**
+   * Run the handler, or the given secondary action, and report its outcome
+   * through the lifecycle events. With `showProgress` the keypad stays open on
+   * a busy item until an async handler settles, otherwise it closes right away
+   * unless `keepOpen` is set.
+   */
+  async #executeCommand(
+    command: HotKeyPadCommand,
+    source: HotKeyPadTrigger,
+    event: Event,
+    args: HotKeyPadArgs = {},
+    secondaryAction: HotKeyPadSecondaryAction | null = null
+  ) {
+    const detail = { id: command.id, source, ...(secondaryAction && { secondaryAction: secondaryAction.id }) }
+    if (!this.#emit("execute", detail, true)) return
+
+    const { query } = this.#core.state
+    const instance = this.instance
+    const context: HotKeyPadHandlerContext = { command, source, query, args, secondaryAction, event, instance }
+    const waitInPalette = command.showProgress === true && this.#isOpen
+    if (!command.keepOpen && !waitInPalette && this.#isOpen) this.close()
+
+    const itemEl = waitInPalette ? this.#container?.querySelector(`li[data-id="${CSS.escape(command.id)}"]`) : null
+    itemEl?.setAttribute("aria-busy", "true")
+    try {
+      await (secondaryAction ?? command).handler?.(context)
+      this.#emit("executed", detail)
+    } catch (error) {
+      if (this.#emit("error", { ...detail, error }, true)) console.error(error)
+    } finally {
+      itemEl?.removeAttribute("aria-busy")
+      if (waitInPalette && !command.keepOpen) this.close()
+    }
+  }
+
+  #announce(message: string) {
+    const announcerEl = this.#container?.querySelector("[data-announcer]")
+    if (announcerEl && this.#isOpen) announcerEl.textContent = message
+  }
+
+  #handleRecording(event: KeyboardEvent) {
+    const recording = this.#recording
+    if (!recording) return
+    event.preventDefault()
+    event.stopPropagation()
+    if (event.key === "Escape") {
+      this.#stopRecording()
+      recording.resolve(null)
+      return
+    }
+    const hotkey = hotkeyFromEvent(event)
+    if (hotkey == null) return
+    this.#stopRecording()
+    try {
+      this.setKeybinding(recording.id, hotkey)
+      recording.resolve(hotkey)
+    } catch (error) {
+      recording.reject(error)
+    }
+  }
+
+  #stopRecording() {
+    this.#recording = null
+    this.#container?.removeAttribute("data-recording")
+    this.#renderPrompt(this.#core.state)
+  }
+
+  #isActivation(event: KeyboardEvent) {
+    const keyCode = `Key${this.#activationLetter.toUpperCase()}`
+    return event.code === keyCode && (event.metaKey || event.ctrlKey)
+  }
+
+  #isActivationCombo(combo: HotkeyCombo | undefined) {
+    return combo?.key === this.#activationLetter.toUpperCase() && (combo.ctrl || combo.meta)
+  }
+
+  #canDispatch(combo: HotkeyCombo, command: HotKeyPadCommand, target: EventTarget | null) {
+    if (!isEditableElement(target) || command.allowInInput) return true
+    const isOwnInput = target instanceof Node && this.#container?.contains(target)
+    return Boolean(isOwnInput) && (combo.ctrl || combo.meta || combo.alt)
+  }
+
+  #applyTheme() {
+    const isDark = this.#theme === "dark" || (this.#theme === "system" && this.#colorScheme?.matches === true)
+    this.instance.setAttribute("data-theme", isDark ? "dark" : "light")
+  }
+
+  #emitKeybindings() {
+    this.#emit("keybindings", { keybindings: this.#core.getKeybindings() })
   }
 
   #hasCustomFooter(footerEl: HTMLElement) {
-    const template = document.querySelector("#hotkeypad-footer") as HTMLTemplateElement | null
+    const root = this.instance.getRootNode() as Document | ShadowRoot
+    const template = root.querySelector("#hotkeypad-footer") as HTMLTemplateElement | null
 
     if (template == null) return false
     const clone = template.content.cloneNode(true) as DocumentFragment
@@ -272,18 +724,25 @@ export default class HotKeyPad {
 
   /* PUBLIC METHODS */
   /**
-   * Open the HotKeyPad dialog.
+   * Open the HotKeyPad dialog, optionally pre-filtered.
    * Dispatches 'hotkeypad:open' custom event.
+   * @param options The prefix of the mode to open in, "?" to list the modes, and the query to search
+   * @throws Error if no mode has the given prefix
    */
-  open() {
+  open({ mode, query }: { mode?: string; query?: string } = {}) {
     if (this.#isDestroyed) return
-    window.dispatchEvent(new CustomEvent("hotkeypad:open"))
+    if (mode != null) this.#core.setMode(mode, query)
+    else if (query != null) this.#core.setQuery(query)
+    this.#emit("open")
     this.instance.setAttribute("aria-expanded", "true")
+    this.#container?.querySelector("input")?.setAttribute("aria-expanded", "true")
+    if (!this.#isOpen) this.#previousFocus = getActiveElement()
 
     this.instance.style.opacity = "1"
     this.instance.style.visibility = "visible"
     this.instance.style.pointerEvents = "auto"
-    setTimeout(() => this.#container?.querySelector("input")?.focus(), 200)
+    this.#core.refresh()
+    setTimeout(() => this.#focusView(), 200)
   }
 
   /**
@@ -292,26 +751,306 @@ export default class HotKeyPad {
    */
   close() {
     if (this.#isDestroyed) return
-    window.dispatchEvent(new CustomEvent("hotkeypad:close"))
+    this.#emit("close")
     this.instance.setAttribute("aria-expanded", "false")
+    if (this.#recording) {
+      this.#recording.resolve(null)
+      this.#stopRecording()
+    }
+    this.#container?.querySelector("input")?.setAttribute("aria-expanded", "false")
+    this.#core.cancelPrompt()
+    this.#closeActionPanel()
+    this.#resetView()
 
     this.instance.style.opacity = "0"
     this.instance.style.visibility = "hidden"
     this.instance.style.pointerEvents = "none"
-    const input = this.#container?.querySelector("input")
-    if (input) input.value = ""
+    this.#core.setQuery("")
+    this.#core.goToPage(0)
+
+    const previousFocus = this.#previousFocus
+    this.#previousFocus = null
+    if (previousFocus?.isConnected) previousFocus.focus()
+  }
+
+  /**
+   * Show the cheat sheet, a printable reference of every registered hotkey
+   * grouped by section, with conflicting and reserved hotkeys highlighted.
+   * Opens the keypad if needed. Also toggled with Shift+? outside text fields.
+   */
+  showCheatSheet() {
+    if (this.#isDestroyed || !this.#container || !this.#cheatSheet) return
+    this.#renderCheatSheet()
+    this.#container.setAttribute("data-view", "cheatsheet")
+    this.#cheatSheet.hidden = false
+    if (this.#isOpen) this.#focusView()
+    else this.open()
+  }
+
+  /**
+   * Go back from the cheat sheet to the command list, keeping the keypad open.
+   */
+  hideCheatSheet() {
+    if (this.#isDestroyed || !this.#isCheatSheetOpen) return
+    this.#resetView()
+    if (this.#isOpen) this.#focusView()
   }
 
   /**
    * Set the commands to be displayed in the HotKeyPad.
+   * The commands declared in the markup are kept.
    * @param commands Array of HotKeyPadCommand objects
    * @throws Error if commands array is empty or contains invalid commands
    */
   setCommands(commands: HotKeyPadCommand[]) {
     if (this.#isDestroyed) return
-    this.#commands = this.#verifyCommands(commands)
-    this.#renderCommands()
-    this.#setListeners()
+    this.#core.setCommands([...commands, ...this.#declared.values()])
+  }
+
+  /**
+   * Add commands to the ones already set, without replacing them.
+   * @param commands Array of HotKeyPadCommand objects
+   * @throws Error if a command is invalid, reuses an existing id or an existing hotkey
+   */
+  addCommands(commands: HotKeyPadCommand[]) {
+    if (this.#isDestroyed) return
+    this.#core.addCommands(commands)
+  }
+
+  /**
+   * Remove a command, along with its children.
+   * @param id The id of the command to remove
+   * @throws Error if no command has the given id
+   */
+  removeCommand(id: string) {
+    if (this.#isDestroyed) return
+    this.#core.removeCommand(id)
+  }
+
+  /**
+   * Update the fields of an existing command.
+   * @param id The id of the command to update
+   * @param patch The fields to change
+   * @throws Error if no command has the given id or the updated command is invalid
+   */
+  updateCommand(id: string, patch: Partial<Omit<HotKeyPadCommand, "id" | "children">>) {
+    if (this.#isDestroyed) return
+    this.#core.updateCommand(id, patch)
+  }
+
+  /**
+   * Get the registered commands, with nested commands flattened and linked through `parent`.
+   */
+  getCommands(): HotKeyPadCommand[] {
+    return this.#core.getCommands()
+  }
+
+  /**
+   * Change the display and key options after creation.
+   * Empty values are ignored, as in the constructor.
+   * @param options The options to change
+   * @throws Error if another instance uses the new activation letter on the same keyboard target
+   */
+  setOptions({
+    closeKey,
+    placeholder,
+    emptyMessage,
+    activationLetter,
+    theme
+  }: Pick<HotKeyPadOptionsProps, "closeKey" | "placeholder" | "emptyMessage" | "activationLetter" | "theme">) {
+    if (this.#isDestroyed) return
+    if (theme) this.setTheme(theme)
+    if (activationLetter && activationLetter.toUpperCase() !== this.#activationLetter.toUpperCase()) {
+      const previous = this.#activationLetter
+      this.#unbindActivationKey()
+      this.#activationLetter = activationLetter.toUpperCase()
+      try {
+        this.#bindActivationKey()
+      } catch (error) {
+        this.#activationLetter = previous
+        this.#bindActivationKey()
+        throw error
+      }
+      this.#core.setActivationLetter(this.#activationLetter)
+    }
+    if (closeKey && closeKey !== "") this.#closeKey = closeKey
+    if (placeholder && placeholder !== "") this.#placeholder = placeholder
+    if (emptyMessage && emptyMessage !== "") this.#emptyMessage = emptyMessage
+
+    const inputEl = this.#container?.querySelector("input")
+    if (inputEl) {
+      inputEl.name = this.#placeholder.toLocaleLowerCase()
+      inputEl.placeholder = this.#placeholder
+      inputEl.setAttribute("aria-label", this.#placeholder)
+    }
+    const emptyEl = this.#container?.querySelector("[data-empty]")
+    if (emptyEl) emptyEl.textContent = this.#emptyMessage
+    this.#container?.querySelector(":scope > footer")?.remove()
+    this.#createFooter()
+    this.#renderChord(this.#core.state.pendingChord)
+  }
+
+  /**
+   * Change the color theme. With "system" the keypad follows the `prefers-color-scheme` media query.
+   * Unknown themes are ignored.
+   * @param theme The theme to use
+   */
+  setTheme(theme: HotKeyPadTheme) {
+    if (this.#isDestroyed || !THEMES.includes(theme)) return
+    this.#theme = theme
+    this.#applyTheme()
+  }
+
+  /**
+   * Replace the active scopes with the given one.
+   * Commands with a `scope` are only available while that scope is active.
+   * @param scope The scope to activate
+   */
+  setScope(scope: string) {
+    this.#core.setScope(scope)
+  }
+
+  /**
+   * Activate a scope on top of the current ones.
+   * @param scope The scope to activate
+   */
+  pushScope(scope: string) {
+    this.#core.pushScope(scope)
+  }
+
+  /**
+   * Deactivate the most recently activated scope.
+   * @returns The deactivated scope, if any
+   */
+  popScope() {
+    return this.#core.popScope()
+  }
+
+  /**
+   * Forget which commands were used, emptying the "Recent" section and the ranking boost.
+   */
+  clearHistory() {
+    this.#core.clearHistory()
+  }
+
+  /**
+   * Rebind a command to another hotkey, overriding the one it was registered with.
+   * The override is persisted through the storage adapter.
+   * @param id The id of the command
+   * @param hotkey The new hotkey, or null to leave the command without one
+   * @throws Error if the hotkey is not valid, reserved or used by another command
+   */
+  setKeybinding(id: string, hotkey: string | null) {
+    if (this.#isDestroyed) return
+    this.#core.setKeybinding(id, hotkey)
+    this.#emitKeybindings()
+  }
+
+  /**
+   * Restore the registered hotkey of a command, or of every command when no id is given.
+   * @param id The id of the command
+   */
+  resetKeybinding(id?: string) {
+    if (this.#isDestroyed) return
+    this.#core.resetKeybinding(id)
+    this.#emitKeybindings()
+  }
+
+  /**
+   * Get the keybinding overrides, keyed by command id.
+   */
+  getKeybindings(): { [id: string]: string | null } {
+    return this.#core.getKeybindings()
+  }
+
+  /**
+   * Export the keybinding overrides as JSON.
+   */
+  exportKeybindings() {
+    return this.#core.exportKeybindings()
+  }
+
+  /**
+   * Replace the keybinding overrides with the ones from an exported JSON.
+   * @param json The JSON produced by exportKeybindings()
+   * @throws Error if the JSON is malformed, or a hotkey is not valid or conflicts with another
+   */
+  importKeybindings(json: string) {
+    if (this.#isDestroyed) return
+    this.#core.importKeybindings(json)
+    this.#emitKeybindings()
+  }
+
+  /**
+   * Capture the next key combination pressed and bind it to a command.
+   * Pressing Escape cancels the recording.
+   * @param id The id of the command, defaults to the active item
+   * @returns The recorded hotkey, or null if cancelled or the active item is not a registered command
+   */
+  recordKeybinding(id?: string): Promise<string | null> {
+    const { items, activeIndex } = this.#core.state
+    const commandId = id ?? items[activeIndex]?.command.id
+    const isRegistered = this.#core.getCommands().some((command) => command.id === commandId)
+    if (this.#isDestroyed || commandId == null || (id == null && !isRegistered)) return Promise.resolve(null)
+    if (!isRegistered) return Promise.reject(new Error(`The command "${commandId}" does not exist`))
+    this.#recording?.resolve(null)
+
+    return new Promise((resolve, reject) => {
+      this.#recording = { id: commandId, resolve, reject }
+      this.#container?.setAttribute("data-recording", "")
+      const inputEl = this.#container?.querySelector("input")
+      if (inputEl) inputEl.placeholder = this.#messages.recordPrompt
+    })
+  }
+
+  /**
+   * Register an async source of commands queried as the user types.
+   * Results are merged with the static commands on the root page, outside modes.
+   * @param provider Function receiving the query and an AbortSignal for stale queries
+   * @returns A function that unregisters the provider
+   */
+  registerProvider(provider: HotKeyPadProvider) {
+    return this.#core.registerProvider(provider)
+  }
+
+  /**
+   * Register a search mode, entered by typing its prefix at the start of the search
+   * input. Once a mode is registered, "?" lists them all.
+   * @param mode The prefix, title, placeholder, empty message and source of the mode
+   * @returns A function that unregisters the mode
+   * @throws Error if the prefix is empty, "?" or already registered
+   */
+  registerMode(mode: HotKeyPadMode) {
+    return this.#core.registerMode(mode)
+  }
+
+  /**
+   * Register a handler by name, for manifest commands to reference as their action.
+   * @param name The name of the action
+   * @param action Function receiving the args of the action in the manifest and the handler context
+   * @returns A function that unregisters the action
+   */
+  registerAction(name: string, action: HotKeyPadAction) {
+    return this.#core.registerAction(name, action)
+  }
+
+  /**
+   * Load commands from a JSON manifest, resolving their handlers from the registered actions.
+   * They replace the commands of the previously loaded manifest, other commands are kept.
+   * @param manifest The manifest, as JSON or already parsed
+   * @throws Error pointing to the offending entry if the manifest is malformed, references an
+   * unregistered action or contains an invalid command
+   */
+  loadManifest(manifest: string | HotKeyPadManifest) {
+    if (this.#isDestroyed) return
+    this.#core.loadManifest(manifest)
+  }
+
+  /**
+   * Export as a JSON manifest the commands running a named action and those only holding children.
+   */
+  exportManifest() {
+    return this.#core.exportManifest()
   }
 
   /**
@@ -323,7 +1062,8 @@ export default class HotKeyPad {
     if (this.#isDestroyed) return
     this.#isDestroyed = true
 
-    this.#observer.disconnect()
+    this.#unbindActivationKey()
+    MOUNTED_ELEMENTS.delete(this.instance)
 
     this.#listeners.forEach(({ element, event, callback }) => {
       element.removeEventListener(event, callback)
@@ -338,8 +1078,21 @@ export default class HotKeyPad {
       this.#container.remove()
       this.#container = null
     }
-
-    this.#commands = []
+    this.#cheatSheet = null
+
+    this.#recording?.resolve(null)
+    this.#recording = null
+    this.#commandObserver?.disconnect()
+    this.#commandObserver = null
+    this.#declared.clear()
+    this.#unsubscribe()
+    this.#core.destroy()
+    this.#sectionElements.clear()
+    this.#itemElements.clear()
+    this.#visibleItems.clear()
+    this.#rows = []
+    this.#itemTops = []
+    this.#icons.clear()
   }
 
   /* GETTERS */
@@ -347,6 +1100,10 @@ export default class HotKeyPad {
     return this.instance.style.visibility === "visible"
   }
 
+  get #isCheatSheetOpen() {
+    return this.#cheatSheet?.hidden === false
+  }
+
   /**
    * Get the current activation key (Ctrl for Windows/Linux, Cmd for Mac).
    */
@@ -354,6 +1111,27 @@ export default class HotKeyPad {
     return this.#activationKey
   }
 
+  /**
+   * Get the color theme, as set through the `theme` option or `setTheme()`.
+   */
+  get theme() {
+    return this.#theme
+  }
+
+  /**
+   * Get the active scopes, oldest first.
+   */
+  get scopes() {
+    return this.#core.state.scopes
+  }
+
+  /**
+   * Get the keys typed so far of an unfinished hotkey sequence (e.g. "Ctrl+K"), or an empty string.
+   */
+  get pendingChord() {
+    return this.#core.state.pendingChord
+  }
+
   /**
    * Check if the HotKeyPad instance has been destroyed.
    */
@@ -361,55 +1139,72 @@ export default class HotKeyPad {
     return this.#isDestroyed
   }
 
-  get #sections() {
-    const map = new Map<string, Omit<HotKeyPadCommand, 'section'>[]>()
-    this.#commands.forEach((item) => {
-      const key = typeof item.section !== "string" || item.section === "" ? "Unlisted" : item.section
-      const { section, ...content } = item
-      const collection = map.get(key)
-      if (!collection) map.set(key, [content])
-      else collection.push(content)
-    })
-    return Array.from(map) as Array<[string, Omit<HotKeyPadCommand, 'section'>[]]>
+  /**
+   * Get the headless core whose state is rendered by this instance.
+   */
+  get core() {
+    return this.#core
   }
 
-  get #items() {
-    return this.#container?.querySelectorAll("li") ?? document.querySelectorAll("li.nonexistent")
+  /**
+   * Get the index of the active item among the listed results.
+   */
+  get currentIndex() {
+    return this.#core.state.activeIndex
   }
 
   get emptyMessage() {
     const message = createElement("div", this.#emptyMessage)
     message.setAttribute("data-empty", "")
-    message.setAttribute("role", "status")
-    message.setAttribute("aria-live", "polite")
+    message.setAttribute("part", "empty")
+    message.setAttribute("aria-hidden", "true")
     return message
   }
 
+  get #isMac() {
+    return this.#activationKey === "Cmd"
+  }
+
+  #keyLabel(key: string) {
+    const combo = parseHotkey(key)
+    return formatKeyLabel(combo ? combo.key : key, this.#isMac)
+  }
+
   /* ICON METHODS */
-  #iconURL(icon: string) {
-    return `https://cdn.simpleicons.org/${icon}/${this.#svgIconColor}`
+  #resolveIcon(icon: string) {
+    const cached = this.#icons.get(icon)
+    if (cached) return cached
+    const resolved = this.#loadIcon(icon).catch(() => null)
+    this.#icons.set(icon, resolved)
+    return resolved
   }
 
-  #isCustomIcon(icon: string) {
-    return /<svg/.test(icon) || /<img/.test(icon) || /<i/.test(icon) || icon === ""
+  /**
+   * Markup is sanitized as is. Names go through the `iconResolver`, then the
+   * bundled registry and, only when opted in with `iconCdn`, the CDN.
+   */
+  async #loadIcon(icon: string): Promise<Element | null> {
+    if (icon.trim().startsWith("<")) return sanitizeIcon(icon)
+
+    const resolved = await this.#iconResolver?.(icon)
+    if (resolved instanceof Element) return resolved
+    if (typeof resolved === "string") return sanitizeIcon(resolved)
+    if (ICONS[icon]) return sanitizeIcon(ICONS[icon])
+
+    if (this.#iconCdn == null) return null
+    const markup = await fetchIcon(this.#iconCdn.replace("{name}", encodeURIComponent(icon)))
+    const iconEl = markup ? sanitizeIcon(markup) : null
+    iconEl?.setAttribute("fill", "currentColor")
+    return iconEl
   }
 
-  #createIconElement(icon: string, title: string): HTMLElement {
-    const itemIcon = createElement("span")
-    if (this.#isCustomIcon(icon)) {
-      if (icon !== "") {
-        itemIcon.innerHTML = icon
-      }
-    } else {
-      const img = document.createElement("img")
-      img.src = this.#iconURL(icon)
-      img.alt = title
-      img.onerror = () => {
-        img.remove()
-        itemIcon.textContent = title.charAt(0).toUpperCase()
-      }
-      itemIcon.appendChild(img)
-    }
+  #createIconElement(icon: string, title: string) {
+    if (icon === "") return null
+    const itemIcon = createElement("span", { "data-icon": "", part: "icon", "aria-hidden": "true" })
+    this.#resolveIcon(icon).then((iconEl) => {
+      if (iconEl) itemIcon.replaceChildren(iconEl.cloneNode(true))
+      else itemIcon.textContent = title.charAt(0).toUpperCase()
+    })
     return itemIcon
   }
 
@@ -417,6 +1212,7 @@ export default class HotKeyPad {
   #createBackdrop() {
     this.#backdrop = createElement("div", {
       "data-backdrop": "",
+      part: "backdrop",
       "aria-hidden": "true"
     })
     const backdropListener = createListener(this.#backdrop, "click", () => this.close())
@@ -427,114 +1223,681 @@ export default class HotKeyPad {
   #createContainer() {
     this.#container = createElement("div", {
       "data-container": "",
+      part: "container",
       "role": "dialog",
       "aria-modal": "true",
-      "aria-label": "Command palette"
+      "aria-label": this.#messages.dialogLabel
     })
+    if (this.#dir) this.#container.setAttribute("dir", this.#dir)
     this.instance.setAttribute("aria-expanded", "false")
     this.instance.appendChild(this.#container)
   }
 
   #createHeader() {
     if (!this.#container) return
-    const headerEl = createElement("header")
+    const headerEl = createElement("header", { part: "header" })
     const inputEl = createElement("input", {
       type: "text",
+      part: "input",
       name: this.#placeholder.toLocaleLowerCase(),
       placeholder: this.#placeholder,
+      role: "combobox",
       "aria-label": this.#placeholder,
+      "aria-expanded": "false",
+      "aria-controls": `${this.#uid}-listbox`,
+      "aria-autocomplete": "list",
+      "aria-describedby": `${this.#uid}-prompt-error`,
       autocomplete: "off",
       spellcheck: "false"
     })
+    const errorEl = createElement("p", {
+      id: `${this.#uid}-prompt-error`,
+      "data-prompt-error": "",
+      part: "prompt-error",
+      role: "alert"
+    })
+    errorEl.hidden = true
+
+    const breadcrumbsEl = createElement("div", {
+      "data-breadcrumbs": "",
+      part: "breadcrumbs",
+      "aria-label": this.#messages.breadcrumbsLabel
+    })
+    breadcrumbsEl.hidden = true
 
-    headerEl.appendChild(inputEl)
+    headerEl.append(breadcrumbsEl, inputEl, errorEl)
     this.#container.appendChild(headerEl)
   }
 
+  #renderBreadcrumbs({ pages, prompt, mode }: CommandPaletteState) {
+    const breadcrumbsEl = this.#container?.querySelector<HTMLElement>("[data-breadcrumbs]")
+    if (!breadcrumbsEl) return
+    const titles = [
+      ...(mode ? [this.#modeTitle(mode)] : []),
+      ...pages.map(({ title }) => title),
+      ...(prompt ? [prompt.command.title] : [])
+    ]
+    const crumbs = [this.#messages.home, ...titles].map((title, depth) => {
+      const crumbEl = createElement("span", { "data-crumb": String(depth), part: "crumb" })
+      crumbEl.textContent = title
+      if (depth === titles.length) crumbEl.setAttribute("aria-current", "page")
+      return crumbEl
+    })
+    breadcrumbsEl.replaceChildren(...crumbs)
+    breadcrumbsEl.hidden = titles.length === 0
+  }
+
   #createFooter() {
     if (!this.#container) return
-    const footerEl = createElement("footer")
+    const footerEl = createElement("footer", { part: "footer" })
     if (!this.#hasCustomFooter(footerEl)) {
       const keyEnter = createElement("kbd", "↩")
       const keyUp = createElement("kbd", "↑")
       const keyDown = createElement("kbd", "↓")
-      const keyEsc = createElement("kbd", this.#closeKey)
-      const keyCmdK = createElement("kbd", `${this.#activationKey} + ${this.#activationLetter}`)
-
-      const pEnter = createElement("p", " to select")
-      const pUpDown = createElement("p", " to navigate")
-      const pCmdK = createElement("p", " to close")
+      const keyEsc = createElement("kbd", this.#keyLabel(this.#closeKey))
+      const activationKeys = [this.#activationKey, this.#activationLetter.toUpperCase()].map((key) =>
+        this.#keyLabel(key)
+      )
+      const keyCmdK = createElement("kbd", activationKeys.join(this.#isMac ? "" : " + "))
+
+      const keyActions = createElement("kbd", this.#actionPanelKeys.open === "ArrowLeft" ? "←" : "→")
+
+      const pEnter = createElement("p", ` ${this.#messages.toSelect}`)
+      const pUpDown = createElement("p", ` ${this.#messages.toNavigate}`)
+      const pActions = createElement("p", { "data-actions-hint": "" })
+      const pCmdK = createElement("p", ` ${this.#messages.toClose}`)
+      const secondaryHints = this.#secondaryHotkeys.map((hotkey, position) => {
+        const combo = parseHotkey(hotkey)
+        const keys = (combo ? hotkeyToKeys(combo) : []).map((key) => this.#keyLabel(key))
+        const keyEl = createElement("kbd", keys.join(this.#isMac ? "" : " + "))
+        const hintEl = createElement("p", { "data-secondary-hint": String(position) })
+        hintEl.append(keyEl, createElement("span"))
+        hintEl.hidden = true
+        return { hintEl, keyEl }
+      })
 
       pEnter.prepend(keyEnter)
       pUpDown.prepend(keyUp, keyDown)
+      pActions.append(keyActions, ` ${this.#messages.toOpenActions}`)
+      pActions.hidden = true
       pCmdK.prepend(keyCmdK, keyEsc)
 
-      footerEl.append(pEnter, pUpDown, pCmdK)
+      const hintEls = [pEnter, pUpDown, ...secondaryHints.map(({ hintEl }) => hintEl), pActions, pCmdK]
+      const keyEls = [keyEnter, keyUp, keyDown, ...secondaryHints.map(({ keyEl }) => keyEl), keyActions, keyEsc, keyCmdK]
+      hintEls.forEach((hintEl) => hintEl.setAttribute("part", "hint"))
+      keyEls.forEach((keyEl) => keyEl.setAttribute("part", "kbd"))
+      footerEl.append(...hintEls)
     }
+    const announcerEl = createElement("div", { "data-announcer": "", role: "status", "aria-live": "polite" })
+    footerEl.appendChild(announcerEl)
+    const chordEl = createElement("p", { "data-chord": "", part: "chord", "aria-live": "polite" })
+    chordEl.hidden = true
+    footerEl.appendChild(chordEl)
     this.#container.appendChild(footerEl)
   }
 
+  #createSectionElement(section: string) {
+    const titleId = `${this.#uid}-section-${section.toLowerCase().replace(/\s+/g, "-")}`
+    const sectionEl = createElement("li", {
+      "data-section": section.toLowerCase(),
+      role: "presentation",
+      part: "section"
+    })
+    const titleEl = createElement("h4", section)
+    titleEl.setAttribute("id", titleId)
+    titleEl.setAttribute("part", "section-title")
+    sectionEl.appendChild(titleEl)
+    return sectionEl
+  }
+
+  #createItemElement({ command, hotkey }: CommandPaletteItem) {
+    const { id, title, description, icon } = command
+    const itemEl = createElement("li")
+    itemEl.setAttribute("id", `${this.#uid}-option-${++this.#optionCount}`)
+    itemEl.setAttribute("aria-selected", "false")
+    itemEl.setAttribute("data-id", id)
+    itemEl.setAttribute("data-hotkey", hotkey ?? "")
+    itemEl.setAttribute("role", "option")
+    itemEl.setAttribute("part", "item")
+    itemEl.setAttribute("aria-label", hotkey ? `${title}, shortcut: ${hotkey}` : title)
+
+    const iconEl = this.#createIconElement(icon ?? "", title)
+    if (iconEl) itemEl.appendChild(iconEl)
+
+    const itemTitle = createElement("p", { part: "title" })
+    itemTitle.append(title)
+    if (description) {
+      const descriptionEl = createElement("small", description)
+      descriptionEl.setAttribute("part", "description")
+      itemTitle.appendChild(descriptionEl)
+    }
+
+    itemEl.appendChild(itemTitle)
+    itemEl.appendChild(this.#createKeysElement("div", hotkey))
+    return itemEl
+  }
+
+  #createKeysElement(tag: string, hotkey: string | undefined) {
+    const sequence = hotkey ? parseHotkeySequence(hotkey) : null
+    const keys = sequence ? sequence.flatMap(hotkeyToKeys) : []
+    const keysEl = createElement(tag, { part: "keys" })
+    keys.forEach((key) => {
+      const keyEl = createElement("span", this.#keyLabel(key))
+      keyEl.setAttribute("part", "key")
+      keysEl.appendChild(keyEl)
+    })
+    return keysEl
+  }
+
   #createSections() {
     if (!this.#container) return
     const sectionsEl = createElement("div")
     sectionsEl.setAttribute("data-sections", "")
+    sectionsEl.setAttribute("id", `${this.#uid}-listbox`)
+    sectionsEl.setAttribute("role", "listbox")
+    sectionsEl.setAttribute("part", "listbox")
+    sectionsEl.setAttribute("aria-label", this.#messages.listboxLabel)
+
+    const stickyEl = createElement("div", { "data-sticky": "", part: "sticky-section", "aria-hidden": "true" })
+    stickyEl.hidden = true
+    const viewportEl = createElement("ul", { "data-viewport": "", role: "presentation" })
+    sectionsEl.append(stickyEl, viewportEl, this.emptyMessage)
+
+    // The listbox may only own options, so the loading state and the action panel sit next to it
+    const loadingEl = createElement("div", { "data-loading": "", part: "loading", role: "status" })
+    loadingEl.textContent = this.#messages.loading
+    loadingEl.hidden = true
+
+    const panelEl = createElement("div", { "data-action-panel": "", part: "action-panel", role: "menu" })
+    panelEl.hidden = true
+
+    const footerEl = this.#container.lastChild
+    this.#container.insertBefore(sectionsEl, footerEl)
+    this.#container.insertBefore(loadingEl, footerEl)
+    this.#container.insertBefore(panelEl, footerEl)
+  }
 
-    this.#sections.forEach(([section, commands]) => {
-      const sectionEl = createElement("div")
-      sectionEl.setAttribute("data-section", section.toLowerCase())
+  get #actionPanelKeys() {
+    return this.#dir === "rtl" ? { open: "ArrowLeft", close: "ArrowRight" } : { open: "ArrowRight", close: "ArrowLeft" }
+  }
 
-      if (section !== "Unlisted") {
-        const titleEl = createElement("h4", section)
-        titleEl.setAttribute("id", `section-${section.toLowerCase()}`)
-        sectionEl.setAttribute("aria-label", `section-${section.toLowerCase()}`)
+  /**
+   * Open the action panel of an item next to it, listing its secondary actions.
+   * @returns Whether the item has secondary actions to list
+   */
+  #openActionPanel(index: number) {
+    const item = this.#core.state.items[index]
+    const panelEl = this.#container?.querySelector<HTMLElement>("[data-action-panel]")
+    const actions = item?.command.secondaryActions ?? []
+    if (!item?.isEnabled || actions.length === 0 || !panelEl) return false
+
+    this.#actionPanel = { index, active: 0 }
+    panelEl.setAttribute("aria-label", this.#messages.actionsLabel(item.command.title))
+    panelEl.replaceChildren(...actions.map((action, position) => this.#createSecondaryActionElement(action, position)))
+    panelEl.hidden = false
+    this.#positionActionPanel()
+    this.#visibleItems.get(index)?.setAttribute("aria-expanded", "true")
+    this.#renderActionPanel()
+    return true
+  }
+
+  /**
+   * Align the action panel with the top of its item, kept within the visible part of the list.
+   */
+  #positionActionPanel() {
+    const panelEl = this.#container?.querySelector<HTMLElement>("[data-action-panel]")
+    const sectionsEl = this.#container?.querySelector<HTMLElement>("[data-sections]")
+    if (!this.#actionPanel || !panelEl || !sectionsEl) return
+    const top = (this.#itemTops[this.#actionPanel.index] ?? 0) - sectionsEl.scrollTop
+    const bottom = sectionsEl.clientHeight - panelEl.offsetHeight
+    panelEl.style.top = `${sectionsEl.offsetTop + Math.max(Math.min(top, bottom), 0)}px`
+  }
+
+  #closeActionPanel() {
+    const panel = this.#actionPanel
+    if (!panel) return
+    this.#actionPanel = null
+    const panelEl = this.#container?.querySelector<HTMLElement>("[data-action-panel]")
+    if (panelEl) {
+      panelEl.hidden = true
+      panelEl.replaceChildren()
+    }
+    this.#visibleItems.get(panel.index)?.removeAttribute("aria-expanded")
+    this.#renderActive(this.#core.state)
+  }
+
+  #renderActionPanel() {
+    const panel = this.#actionPanel
+    this.#container?.querySelectorAll("[data-secondary-action]").forEach((actionEl) => {
+      const isActive = Number(actionEl.getAttribute("data-secondary-action")) === panel?.active
+      actionEl.toggleAttribute("data-active", isActive)
+      actionEl.part.toggle("active", isActive)
+    })
+    this.#renderActive(this.#core.state)
+  }
+
+  #handleActionPanelKey(event: KeyboardEvent) {
+    const panel = this.#actionPanel
+    if (!panel) return
+    const item = this.#core.state.items[panel.index]
+    const count = item?.command.secondaryActions?.length ?? 0
+    const closeKeys = [this.#closeKey.toLowerCase(), this.#actionPanelKeys.close.toLowerCase()]
+    if (closeKeys.includes(event.key.toLowerCase())) {
+      event.preventDefault()
+      HANDLED_EVENTS.add(event)
+      this.#closeActionPanel()
+      return
+    }
+    if (event.key === "Enter") {
+      event.preventDefault()
+      HANDLED_EVENTS.add(event)
+      if (item) this.#runSecondaryAction(item, panel.active, "enter", event)
+      return
+    }
+
+    let offset = 0
+    if (event.key === "ArrowUp" || (event.key === "Tab" && event.shiftKey)) offset = -1
+    else if (event.key === "ArrowDown" || event.key === "Tab") offset = 1
+    if (offset === 0 || count === 0) return
+
+    event.preventDefault()
+    panel.active = (((panel.active + offset) % count) + count) % count
+    this.#renderActionPanel()
+  }
+
+  #createSecondaryActionElement(action: HotKeyPadSecondaryAction, position: number) {
+    const actionEl = createElement("div", {
+      id: `${this.#uid}-action-${position}`,
+      role: "menuitem",
+      "data-secondary-action": String(position),
+      part: "secondary-action"
+    })
+    const iconEl = this.#createIconElement(action.icon ?? "", action.title)
+    if (iconEl) actionEl.appendChild(iconEl)
+    const titleEl = createElement("p", { part: "title" })
+    titleEl.append(action.title)
+    actionEl.appendChild(titleEl)
+    const hotkey = this.#secondaryHotkeys.at(position)
+    if (hotkey) actionEl.appendChild(this.#createKeysElement("div", hotkey))
+    return actionEl
+  }
+
+  #createCheatSheet() {
+    if (!this.#container) return
+    const titleId = `${this.#uid}-cheatsheet-title`
+    const cheatSheetEl = createElement("section", {
+      "data-cheatsheet": "",
+      part: "cheatsheet",
+      "aria-labelledby": titleId,
+      tabindex: "-1"
+    })
+    cheatSheetEl.hidden = true
+
+    const headingEl = createElement("div", { "data-cheatsheet-heading": "", part: "cheatsheet-heading" })
+    const titleEl = createElement("h3", { id: titleId, part: "cheatsheet-title" })
+    titleEl.textContent = this.#messages.cheatSheetTitle
+    const printEl = createElement("button", { type: "button", "data-print": "", part: "print" })
+    printEl.textContent = this.#messages.print
+    headingEl.append(titleEl, printEl)
+
+    const gridEl = createElement("div", { "data-cheatsheet-grid": "", part: "cheatsheet-grid" })
+    cheatSheetEl.append(headingEl, gridEl)
+    this.#container.insertBefore(cheatSheetEl, this.#container.lastChild)
+    this.#cheatSheet = cheatSheetEl
+
+    const printListener = createListener(printEl, "click", () => window.print())
+    this.#listeners.push(printListener)
+  }
+
+  /**
+   * Lay out the registered hotkeys in the sections of the command list, with
+   * the same key chips as the items.
+   */
+  #renderCheatSheet() {
+    const gridEl = this.#cheatSheet?.querySelector("[data-cheatsheet-grid]")
+    if (!gridEl) return
+    const sectionEls = this.#core.getHotkeySections().map(({ name, hotkeys }) => {
+      const sectionEl = createElement("section", {
+        "data-cheatsheet-section": name.toLowerCase(),
+        part: "cheatsheet-section"
+      })
+      if (name !== "Unlisted") {
+        const titleEl = createElement("h4", name)
+        titleEl.setAttribute("part", "section-title")
         sectionEl.appendChild(titleEl)
       }
-      const listEl = createElement("ul")
-      listEl.setAttribute("role", "listbox")
-      listEl.setAttribute("aria-label", `${section} commands`)
-
-      commands.forEach(({ title, icon, hotkey }) => {
-        const keys = hotkey.split("+").map((key) => key.trim())
-        const iconValue = icon ?? ""
-        
-        const itemEl = createElement("li")
-        itemEl.setAttribute("data-hotkey", hotkey)
-        itemEl.setAttribute("role", "option")
-        itemEl.setAttribute("aria-label", `${title}, shortcut: ${hotkey}`)
-
-        const iconEl = this.#createIconElement(iconValue, title)
-        if (iconEl.hasChildNodes() || iconEl.textContent) {
-          itemEl.appendChild(iconEl)
-        }
+      const listEl = createElement("dl")
+      listEl.append(...hotkeys.map((hotkey) => this.#createCheatSheetEntry(hotkey)))
+      sectionEl.appendChild(listEl)
+      return sectionEl
+    })
+    gridEl.replaceChildren(...sectionEls)
+  }
 
-        const itemTitle = createElement("p")
-        itemTitle.append(title)
+  #createCheatSheetEntry({ command, hotkey, conflicts, isReserved, isRejected }: CommandPaletteHotkey) {
+    const entryEl = createElement("div", {
+      "data-cheatsheet-entry": "",
+      "data-id": command.id,
+      part: "cheatsheet-entry"
+    })
+    entryEl.toggleAttribute("data-conflict", conflicts.length > 0)
+    entryEl.toggleAttribute("data-reserved", isReserved)
+    entryEl.toggleAttribute("data-rejected", isRejected)
+
+    const titleEl = createElement("dd", { part: "title" })
+    titleEl.append(command.title)
+    const notes = [
+      isRejected ? this.#messages.rejectedHotkey : "",
+      conflicts.length > 0 ? this.#messages.conflictsWith(conflicts.map(({ title }) => title)) : "",
+      isReserved ? this.#messages.reservedHotkey : ""
+    ]
+    notes
+      .filter((note) => note !== "")
+      .forEach((note) => {
+        const noteEl = createElement("small", note)
+        noteEl.setAttribute("part", "cheatsheet-note")
+        titleEl.appendChild(noteEl)
+      })
 
-        const itemKeys = createElement("div")
-        keys.forEach((key) => {
-          const keyEl = createElement("span", key)
-          itemKeys.appendChild(keyEl)
-        })
+    entryEl.append(this.#createKeysElement("dt", hotkey), titleEl)
+    return entryEl
+  }
+
+  #resetView() {
+    if (!this.#isCheatSheetOpen) return
+    this.#container?.removeAttribute("data-view")
+    if (this.#cheatSheet) this.#cheatSheet.hidden = true
+    if (this.#cheatSheetHash != null && location.hash === this.#cheatSheetHash)
+      history.replaceState(history.state, "", `${location.pathname}${location.search}`)
+  }
+
+  #focusView() {
+    if (this.#isCheatSheetOpen) this.#cheatSheet?.focus()
+    else this.#container?.querySelector("input")?.focus()
+  }
+
+  /**
+   * Show the cheat sheet when the page is loaded with, or navigates to, the
+   * cheat sheet hash, so it can be linked to.
+   */
+  #watchCheatSheetHash() {
+    if (this.#cheatSheetHash == null) return
+    const showOnHash = () => {
+      if (location.hash === this.#cheatSheetHash) this.showCheatSheet()
+    }
+    const hashListener = createListener(window, "hashchange", showOnHash)
+    this.#listeners.push(hashListener)
+    showOnHash()
+  }
+
+  #render(state: CommandPaletteState) {
+    const panel = this.#actionPanel
+    if (panel && (state.sections !== this.#renderedSections || state.activeIndex !== panel.index))
+      this.#closeActionPanel()
+    if (state.sections !== this.#renderedSections) this.#renderSections(state)
+    this.#renderActive(state)
+    if (state.pendingChord !== this.#renderedChord) this.#renderChord(state.pendingChord)
+    this.#renderPrompt(state)
+  }
+
+  /**
+   * Turn the input into a prompt for the argument asked for, showing why the
+   * last value was rejected, or back into the search input of the mode.
+   */
+  #renderPrompt({ prompt, mode }: Pick<CommandPaletteState, "prompt" | "mode">) {
+    const inputEl = this.#container?.querySelector("input")
+    const errorEl = this.#container?.querySelector<HTMLElement>("[data-prompt-error]")
+    if (!inputEl || !errorEl) return
+    this.#container?.toggleAttribute("data-prompt", prompt != null)
+    if (mode) this.#container?.setAttribute("data-mode", mode.prefix)
+    else this.#container?.removeAttribute("data-mode")
+    if (!this.#recording) {
+      const placeholder = prompt ? prompt.argument.label ?? prompt.argument.name : this.#modePlaceholder(mode)
+      inputEl.placeholder = placeholder
+      inputEl.setAttribute("aria-label", placeholder)
+    }
+    inputEl.inputMode = prompt?.argument.type === "number" ? "decimal" : "text"
+
+    const error = prompt?.error ? this.#argumentError(prompt.error) : ""
+    errorEl.textContent = error
+    errorEl.hidden = error === ""
+    if (error) inputEl.setAttribute("aria-invalid", "true")
+    else inputEl.removeAttribute("aria-invalid")
+  }
+
+  #modePlaceholder(mode: HotKeyPadMode | null) {
+    if (mode?.prefix === MODES_PREFIX) return this.#messages.modesPlaceholder
+    return mode?.placeholder ?? this.#placeholder
+  }
 
-        itemEl.appendChild(itemTitle)
-        itemEl.appendChild(itemKeys)
-        listEl.appendChild(itemEl)
+  #modeTitle(mode: HotKeyPadMode) {
+    return mode.prefix === MODES_PREFIX ? this.#messages.modes : mode.title
+  }
+
+  #argumentError(error: HotKeyPadArgumentError) {
+    if (error.reason === "min") return this.#messages.argumentMin(error.min)
+    if (error.reason === "max") return this.#messages.argumentMax(error.max)
+    if (error.reason === "invalid") return error.message
+    if (error.reason === "number") return this.#messages.argumentNumber
+    if (error.reason === "choice") return this.#messages.argumentChoice
+    return this.#messages.argumentRequired
+  }
+
+  /**
+   * Lay the results out as rows and render the ones in view. Only the
+   * layout walks every result, the DOM never holds more than a window of rows.
+   */
+  #renderSections(state: CommandPaletteState) {
+    const sectionsEl = this.#container?.querySelector<HTMLElement>("[data-sections]")
+    const viewportEl = sectionsEl?.querySelector<HTMLElement>("[data-viewport]")
+    const emptyEl = sectionsEl?.querySelector<HTMLElement>("[data-empty]")
+    const loadingEl = this.#container?.querySelector<HTMLElement>("[data-loading]")
+    if (!sectionsEl || !viewportEl || !emptyEl || !loadingEl) return
+    this.#renderedSections = state.sections
+
+    const inputEl = this.#container?.querySelector("input")
+    if (inputEl && inputEl.value !== state.query) inputEl.value = state.query
+    this.#renderBreadcrumbs(state)
+
+    viewportEl.style.height = `${this.#layoutRows(state)}px`
+    sectionsEl.setAttribute("aria-busy", String(state.isLoading))
+    loadingEl.hidden = !state.isLoading
+    const hasResults = state.items.length > 0
+    const emptyMessage = state.mode?.emptyMessage ?? this.#emptyMessage
+    emptyEl.textContent = emptyMessage
+    emptyEl.style.display = hasResults || state.isLoading || state.prompt ? "none" : "flex"
+    if (state.activeIndex === 0) sectionsEl.scrollTop = 0
+    this.#renderedRange = ""
+    this.#renderWindow()
+    if (state.activeIndex > 0) this.#scrollToItem(state.activeIndex)
+    if (hasResults) this.#announce(this.#messages.results(state.items.length))
+    else if (!state.prompt) this.#announce(emptyMessage)
+  }
+
+  /**
+   * Place every result at a fixed offset, using the row heights set in CSS,
+   * and drop the cached elements of the commands no longer listed.
+   * @returns The height of the whole list
+   */
+  #layoutRows({ sections }: CommandPaletteState) {
+    const styles = getComputedStyle(this.instance)
+    const item = parseFloat(styles.getPropertyValue("--hotkeypad-item-height")) || ITEM_HEIGHT
+    const section = parseFloat(styles.getPropertyValue("--hotkeypad-section-height")) || SECTION_HEIGHT
+    this.#rowHeights = { item, section }
+
+    const rows: ListRow[] = []
+    const itemTops: number[] = []
+    let top = 0
+    sections.forEach(({ name, isRecent, items }) => {
+      const prefix = isRecent ? "recent" : "section"
+      const title = isRecent ? this.#messages.recent : name === "Unlisted" ? null : name
+      const group = title != null ? `${prefix}:${name}` : null
+      if (group != null && title != null) {
+        rows.push({ type: "section", key: group, top, section: title, isRecent })
+        top += section
+      }
+      items.forEach((listItem) => {
+        const index = itemTops.push(top) - 1
+        const key = `${prefix}:${listItem.command.id}`
+        rows.push({ type: "item", key, top, section: title, group, item: listItem, index })
+        top += item
       })
+    })
+    this.#rows = rows
+    this.#itemTops = itemTops
 
-      sectionEl.appendChild(listEl)
-      sectionsEl.appendChild(sectionEl)
+    const keys = new Set(rows.map(({ key }) => key))
+    this.#itemElements.forEach((_, key) => {
+      if (!keys.has(key)) this.#itemElements.delete(key)
+    })
+    this.#sectionElements.forEach((_, key) => {
+      if (!keys.has(key)) this.#sectionElements.delete(key)
+    })
+    return top
+  }
+
+  /**
+   * Render the rows in view, plus a few above and below, and pin the
+   * heading of the section at the top of the list. Rows are wrapped in a
+   * group per section, labelled by its heading, which is always rendered.
+   */
+  #renderWindow() {
+    const sectionsEl = this.#container?.querySelector<HTMLElement>("[data-sections]")
+    const viewportEl = sectionsEl?.querySelector<HTMLElement>("[data-viewport]")
+    const stickyEl = sectionsEl?.querySelector<HTMLElement>("[data-sticky]")
+    if (!sectionsEl || !viewportEl || !stickyEl) return
+
+    const { scrollTop } = sectionsEl
+    const first = this.#rowAt(scrollTop)
+    const last = this.#rowAt(scrollTop + (sectionsEl.clientHeight || window.innerHeight))
+    const section = this.#rows[first]?.section ?? null
+    stickyEl.textContent = section
+    stickyEl.hidden = section == null
+
+    const start = Math.max(0, first - OVERSCAN)
+    const end = Math.min(this.#rows.length, last + OVERSCAN + 1)
+    const range = `${start}:${end}`
+    if (range === this.#renderedRange) return
+    this.#renderedRange = range
+
+    this.#visibleItems = new Map()
+    const rows = this.#rows.slice(start, end)
+    const [firstRow] = rows
+    if (firstRow?.type === "item" && firstRow.group != null) {
+      const heading = this.#rows.find(({ key }) => key === firstRow.group)
+      if (heading) rows.unshift(heading)
+    }
+
+    const rowEls: HTMLElement[] = []
+    let groupEl: HTMLElement | null = null
+    rows.forEach((row) => {
+      const rowEl = row.type === "section" ? this.#renderSectionRow(row) : this.#renderItem(row)
+      rowEl.style.top = `${row.top}px`
+      if (row.type === "section") {
+        groupEl = this.#createGroupElement(rowEl.querySelector("h4")?.id ?? "")
+        rowEls.push(groupEl)
+      } else if (row.group == null) groupEl = null
+      if (groupEl) groupEl.querySelector("ul")?.appendChild(rowEl)
+      else rowEls.push(rowEl)
     })
-    sectionsEl.appendChild(this.emptyMessage)
+    viewportEl.replaceChildren(...rowEls)
+    this.#renderActive(this.#core.state)
+  }
 
-    this.#container.insertBefore(sectionsEl, this.#container.lastChild)
+  #createGroupElement(titleId: string) {
+    const groupEl = createElement("li", { "data-group": "", role: "group", "aria-labelledby": titleId })
+    groupEl.appendChild(createElement("ul", { role: "presentation" }))
+    return groupEl
   }
 
-  #renderCommands() {
-    if (!this.#container) return
-    const sectionsEl = this.#container.querySelector("[data-sections]")
-    if (sectionsEl) sectionsEl.remove()
-    this.#createSections()
-    const firstItem = this.#items[0]
-    if (firstItem) firstItem.setAttribute("data-active", "")
+  /**
+   * Find the last row starting at or above an offset of the list.
+   */
+  #rowAt(offset: number) {
+    let low = 0
+    let high = this.#rows.length - 1
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2)
+      if (this.#rows[middle].top <= offset) low = middle
+      else high = middle - 1
+    }
+    return low
+  }
+
+  #scrollToItem(index: number) {
+    const sectionsEl = this.#container?.querySelector<HTMLElement>("[data-sections]")
+    const top = this.#itemTops[index]
+    if (!sectionsEl || top === undefined) return
+    const { item, section } = this.#rowHeights
+    if (top - section < sectionsEl.scrollTop) sectionsEl.scrollTop = Math.max(0, top - section)
+    else if (top + item > sectionsEl.scrollTop + sectionsEl.clientHeight)
+      sectionsEl.scrollTop = top + item - sectionsEl.clientHeight
+    this.#renderWindow()
+  }
+
+  #renderSectionRow({ key, section, isRecent }: Extract<ListRow, { type: "section" }>) {
+    const sectionEl = this.#sectionElements.get(key) ?? this.#createSectionElement(section)
+    sectionEl.toggleAttribute("data-recent", isRecent)
+    this.#sectionElements.set(key, sectionEl)
+    return sectionEl
+  }
+
+  #renderItem({ key, item, index }: Extract<ListRow, { type: "item" }>) {
+    const { command, hotkey, indices, isEnabled, hasChildren } = item
+    const cached = this.#itemElements.get(key)
+    const isCurrent = cached?.command === command && cached.hotkey === hotkey
+    const itemEl = cached && isCurrent ? cached.element : this.#createItemElement(item)
+    this.#itemElements.set(key, { command, hotkey, element: itemEl })
+    this.#visibleItems.set(index, itemEl)
+
+    itemEl.setAttribute("data-index", String(index))
+    itemEl.setAttribute("aria-posinset", String(index + 1))
+    itemEl.setAttribute("aria-setsize", String(this.#itemTops.length))
+    itemEl.toggleAttribute("data-children", hasChildren)
+    itemEl.part.toggle("disabled", !isEnabled)
+    if (isEnabled) itemEl.removeAttribute("aria-disabled")
+    else itemEl.setAttribute("aria-disabled", "true")
+
+    const titleEl = itemEl.querySelector("p")
+    if (titleEl) {
+      const descriptionEl = titleEl.querySelector("small")
+      titleEl.replaceChildren(highlightText(command.title, indices))
+      if (descriptionEl) titleEl.appendChild(descriptionEl)
+    }
+    return itemEl
+  }
+
+  #renderActive({ items, activeIndex }: CommandPaletteState) {
+    this.#visibleItems.forEach((itemEl, index) => {
+      itemEl.toggleAttribute("data-active", index === activeIndex)
+      itemEl.part.toggle("active", index === activeIndex)
+      itemEl.setAttribute("aria-selected", String(index === activeIndex))
+    })
+    const inputEl = this.#container?.querySelector("input")
+    const activeEl = this.#actionPanel
+      ? this.#container?.querySelector(`[data-secondary-action="${this.#actionPanel.active}"]`)
+      : this.#visibleItems.get(activeIndex)
+    if (activeEl) inputEl?.setAttribute("aria-activedescendant", activeEl.id)
+    else inputEl?.removeAttribute("aria-activedescendant")
+
+    const hintEl = this.#container?.querySelector<HTMLElement>("[data-actions-hint]")
+    const activeItem = items[activeIndex]
+    const actions = activeItem?.isEnabled ? activeItem.command.secondaryActions ?? [] : []
+    if (hintEl) hintEl.hidden = actions.length === 0
+    this.#container?.querySelectorAll<HTMLElement>("[data-secondary-hint]").forEach((secondaryHintEl) => {
+      const action = actions.at(Number(secondaryHintEl.getAttribute("data-secondary-hint")))
+      const titleEl = secondaryHintEl.querySelector("span")
+      if (titleEl) titleEl.textContent = action ? ` ${action.title}` : ""
+      secondaryHintEl.hidden = action == null
+    })
+  }
+
+  #renderChord(chord: string) {
+    this.#renderedChord = chord
+    this.#emit("chord", { chord })
+    const chordEl = this.#container?.querySelector<HTMLElement>("[data-chord]")
+    if (!chordEl) return
+    chordEl.textContent = chord === "" ? "" : `${chord} …`
+    chordEl.hidden = chord === ""
   }
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+import type { HotKeyPadMessages } from "./types"
+
+const en: HotKeyPadMessages = {
+  placeholder: "Search command",
+  emptyMessage: "No commands found",
+  dialogLabel: "Command palette",
+  listboxLabel: "Commands",
+  breadcrumbsLabel: "Breadcrumbs",
+  home: "Home",
+  recent: "Recent",
+  loading: "Loading…",
+  toSelect: "to select",
+  toNavigate: "to navigate",
+  toClose: "to close",
+  recordPrompt: "Press the new shortcut, Esc to cancel",
+  results: (count) => `${count} ${count === 1 ? "result" : "results"}`,
+  argumentRequired: "A value is required",
+  argumentNumber: "Enter a number",
+  argumentMin: (min) => `Enter a number of at least ${min}`,
+  argumentMax: (max) => `Enter a number of at most ${max}`,
+  argumentChoice: "Pick one of the options",
+  cheatSheetTitle: "Keyboard shortcuts",
+  print: "Print",
+  conflictsWith: (titles) => `Conflicts with ${titles.join(", ")}`,
+  reservedHotkey: "Reserved by the browser or system",
+  rejectedHotkey: "Saved shortcut not applied",
+  modes: "Modes",
+  modesPlaceholder: "Pick a mode or type its prefix",
+  toOpenActions: "for actions",
+  actionsLabel: (title) => `Actions for ${title}`
+}
+
+const es: HotKeyPadMessages = {
+  placeholder: "Buscar comando",
+  emptyMessage: "No se encontraron comandos",
+  dialogLabel: "Paleta de comandos",
+  listboxLabel: "Comandos",
+  breadcrumbsLabel: "Ruta de navegación",
+  home: "Inicio",
+  recent: "Recientes",
+  loading: "Cargando…",
+  toSelect: "para seleccionar",
+  toNavigate: "para navegar",
+  toClose: "para cerrar",
+  recordPrompt: "Pulsa el nuevo atajo, Esc para cancelar",
+  results: (count) => `${count} ${count === 1 ? "resultado" : "resultados"}`,
+  argumentRequired: "Se requiere un valor",
+  argumentNumber: "Introduce un número",
+  argumentMin: (min) => `Introduce un número mayor o igual que ${min}`,
+  argumentMax: (max) => `Introduce un número menor o igual que ${max}`,
+  argumentChoice: "Elige una de las opciones",
+  cheatSheetTitle: "Atajos de teclado",
+  print: "Imprimir",
+  conflictsWith: (titles) => `Entra en conflicto con ${titles.join(", ")}`,
+  reservedHotkey: "Reservado por el navegador o el sistema",
+  rejectedHotkey: "Atajo guardado no aplicado",
+  modes: "Modos",
+  modesPlaceholder: "Elige un modo o escribe su prefijo",
+  toOpenActions: "para acciones",
+  actionsLabel: (title) => `Acciones de ${title}`
+}
+
+const fr: HotKeyPadMessages = {
+  placeholder: "Rechercher une commande",
+  emptyMessage: "Aucune commande trouvée",
+  dialogLabel: "Palette de commandes",
+  listboxLabel: "Commandes",
+  breadcrumbsLabel: "Fil d'Ariane",
+  home: "Accueil",
+  recent: "Récents",
+  loading: "Chargement…",
+  toSelect: "pour sélectionner",
+  toNavigate: "pour naviguer",
+  toClose: "pour fermer",
+  recordPrompt: "Appuyez sur le nouveau raccourci, Échap pour annuler",
+  results: (count) => `${count} ${count <= 1 ? "résultat" : "résultats"}`,
+  argumentRequired: "Une valeur est requise",
+  argumentNumber: "Saisissez un nombre",
+  argumentMin: (min) => `Saisissez un nombre supérieur ou égal à ${min}`,
+  argumentMax: (max) => `Saisissez un nombre inférieur ou égal à ${max}`,
+  argumentChoice: "Choisissez l'une des options",
+  cheatSheetTitle: "Raccourcis clavier",
+  print: "Imprimer",
+  conflictsWith: (titles) => `En conflit avec ${titles.join(", ")}`,
+  reservedHotkey: "Réservé par le navigateur ou le système",
+  rejectedHotkey: "Raccourci enregistré non appliqué",
+  modes: "Modes",
+  modesPlaceholder: "Choisissez un mode ou tapez son préfixe",
+  toOpenActions: "pour les actions",
+  actionsLabel: (title) => `Actions pour ${title}`
+}
+
+const de: HotKeyPadMessages = {
+  placeholder: "Befehl suchen",
+  emptyMessage: "Keine Befehle gefunden",
+  dialogLabel: "Befehlspalette",
+  listboxLabel: "Befehle",
+  breadcrumbsLabel: "Brotkrumen",
+  home: "Start",
+  recent: "Zuletzt verwendet",
+  loading: "Wird geladen…",
+  toSelect: "zum Auswählen",
+  toNavigate: "zum Navigieren",
+  toClose: "zum Schließen",
+  recordPrompt: "Neues Tastenkürzel drücken, Esc zum Abbrechen",
+  results: (count) => `${count} ${count === 1 ? "Ergebnis" : "Ergebnisse"}`,
+  argumentRequired: "Ein Wert ist erforderlich",
+  argumentNumber: "Geben Sie eine Zahl ein",
+  argumentMin: (min) => `Geben Sie eine Zahl von mindestens ${min} ein`,
+  argumentMax: (max) => `Geben Sie eine Zahl von höchstens ${max} ein`,
+  argumentChoice: "Wählen Sie eine der Optionen",
+  cheatSheetTitle: "Tastenkürzel",
+  print: "Drucken",
+  conflictsWith: (titles) => `Kollidiert mit ${titles.join(", ")}`,
+  reservedHotkey: "Vom Browser oder System reserviert",
+  rejectedHotkey: "Gespeichertes Tastenkürzel nicht angewendet",
+  modes: "Modi",
+  modesPlaceholder: "Wählen Sie einen Modus oder geben Sie sein Präfix ein",
+  toOpenActions: "für Aktionen",
+  actionsLabel: (title) => `Aktionen für ${title}`
+}
+
+const ar: HotKeyPadMessages = {
+  placeholder: "ابحث عن أمر",
+  emptyMessage: "لم يتم العثور على أوامر",
+  dialogLabel: "لوحة الأوامر",
+  listboxLabel: "الأوامر",
+  breadcrumbsLabel: "مسار التنقل",
+  home: "الرئيسية",
+  recent: "الأخيرة",
+  loading: "جارٍ التحميل…",
+  toSelect: "للاختيار",
+  toNavigate: "للتنقل",
+  toClose: "للإغلاق",
+  recordPrompt: "اضغط الاختصار الجديد، Esc للإلغاء",
+  results: (count) => `${count} نتيجة`,
+  argumentRequired: "القيمة مطلوبة",
+  argumentNumber: "أدخل رقمًا",
+  argumentMin: (min) => `أدخل رقمًا لا يقل عن ${min}`,
+  argumentMax: (max) => `أدخل رقمًا لا يزيد عن ${max}`,
+  argumentChoice: "اختر أحد الخيارات",
+  cheatSheetTitle: "اختصارات لوحة المفاتيح",
+  print: "طباعة",
+  conflictsWith: (titles) => `يتعارض مع ${titles.join("، ")}`,
+  reservedHotkey: "محجوز من المتصفح أو النظام",
+  rejectedHotkey: "لم يُطبَّق الاختصار المحفوظ",
+  modes: "الأوضاع",
+  modesPlaceholder: "اختر وضعًا أو اكتب بادئته",
+  toOpenActions: "للإجراءات",
+  actionsLabel: (title) => `إجراءات ${title}`
+}
+
+/**
+ * Built-in message bundles, keyed by language.
+ */
+export const LOCALES: { [language: string]: HotKeyPadMessages } = { en, es, fr, de, ar }
+
+const RTL_LANGUAGES = ["ar", "fa", "he", "ur"]
+
+/**
+ * Get the message bundle for a locale, falling back to its language and then to English
+ * @param locale The locale, e.g. "es" or "es-MX"
+ * @returns The message bundle
+ */
+export function getMessages(locale: string) {
+  const language = locale.toLowerCase().split("-")[0]
+  return LOCALES[locale.toLowerCase()] ?? LOCALES[language] ?? en
+}
+
+/**
+ * Check whether a locale is written right to left
+ * @param locale The locale, e.g. "ar" or "he-IL"
+ * @returns Whether the locale is right to left
+ */
+export function isRtlLocale(locale: string) {
+  return RTL_LANGUAGES.includes(locale.toLowerCase().split("-")[0])
+}
@@ -0,0 +1,131 @@
+import type {
+  HotKeyPadAction,
+  HotKeyPadArgument,
+  HotKeyPadCommand,
+  HotKeyPadManifest,
+  HotKeyPadManifestCommand,
+  ManifestEntry
+} from "./types"
+
+const MANIFEST_VERSION = 1
+const STRING_FIELDS = ["description", "icon", "hotkey", "section", "scope", "parent"]
+const BOOLEAN_FIELDS = ["allowInInput", "keepOpen", "showProgress", "enabled", "hidden"]
+const FIELDS = ["id", "title", "keywords", ...STRING_FIELDS, ...BOOLEAN_FIELDS, "args", "action", "children"]
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value != null && !Array.isArray(value)
+}
+
+/**
+ * Read the commands of a manifest, resolving their handlers from the registered actions
+ * @param input The manifest, as JSON or already parsed
+ * @param actions The registered actions, by name
+ * @returns The commands in order, nested ones flattened and linked through `parent`, with their entry path
+ * @throws Error pointing to the offending entry if the manifest does not follow the format
+ * @example
+ * parseManifest('{ "commands": [{ "id": "home", "title": "Home", "action": { "name": "go" } }] }', actions)
+ * // [{ path: 'commands[0] ("home")', command: { id: "home", title: "Home", action: { name: "go" }, handler } }]
+ */
+export function parseManifest(input: unknown, actions: Map<string, HotKeyPadAction>): ManifestEntry[] {
+  let data = input
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input)
+    } catch {
+      throw new Error("The manifest is not valid JSON")
+    }
+  }
+  if (!isObject(data) || !Array.isArray(data.commands))
+    throw new Error("The manifest should be an object with a commands array")
+  if (data.version != null && data.version !== MANIFEST_VERSION)
+    throw new Error(`The manifest version ${data.version} is not supported, it should be ${MANIFEST_VERSION}`)
+  return readEntries(data.commands, "commands", undefined, actions)
+}
+
+function readEntries(
+  entries: unknown[],
+  path: string,
+  parent: string | undefined,
+  actions: Map<string, HotKeyPadAction>
+): ManifestEntry[] {
+  return entries.flatMap((entry, index) => readEntry(entry, `${path}[${index}]`, parent, actions))
+}
+
+function readEntry(
+  entry: unknown,
+  path: string,
+  parent: string | undefined,
+  actions: Map<string, HotKeyPadAction>
+): ManifestEntry[] {
+  if (!isObject(entry)) throw new Error(`Invalid manifest entry ${path}: it should be an object`)
+  const location = typeof entry.id === "string" && entry.id !== "" ? `${path} ("${entry.id}")` : path
+  const fail = (message: string) => new Error(`Invalid manifest entry ${location}: ${message}`)
+
+  const unknownField = Object.keys(entry).find((field) => !FIELDS.includes(field))
+  if (unknownField != null) throw fail(`unknown field "${unknownField}"`)
+  if (typeof entry.id !== "string" || entry.id === "") throw fail('"id" should be a non-empty string')
+  if (typeof entry.title !== "string" || entry.title === "") throw fail('"title" should be a non-empty string')
+  STRING_FIELDS.forEach((field) => {
+    if (entry[field] != null && typeof entry[field] !== "string") throw fail(`"${field}" should be a string`)
+  })
+  BOOLEAN_FIELDS.forEach((field) => {
+    if (entry[field] != null && typeof entry[field] !== "boolean") throw fail(`"${field}" should be a boolean`)
+  })
+  const { keywords, args, children, action } = entry
+  if (keywords != null && (!Array.isArray(keywords) || keywords.some((keyword) => typeof keyword !== "string")))
+    throw fail('"keywords" should be an array of strings')
+  if (args != null && (!Array.isArray(args) || !args.every(isObject)))
+    throw fail('"args" should be an array of objects')
+  if (children != null && !Array.isArray(children)) throw fail('"children" should be an array')
+  if (parent != null && entry.parent != null) throw fail('"parent" cannot be set on a nested command')
+
+  const { children: _, ...fields } = entry
+  const command: HotKeyPadCommand = { ...fields, id: entry.id, title: entry.title }
+  if (parent != null) command.parent = parent
+  if (action != null) {
+    if (!isObject(action) || typeof action.name !== "string") throw fail('"action" should be an object with a name')
+    if (action.args != null && !isObject(action.args)) throw fail('"action.args" should be an object')
+    const handler = actions.get(action.name)
+    if (!handler) throw fail(`the action "${action.name}" is not registered`)
+    const actionArgs = action.args ?? {}
+    command.handler = (context) => handler(actionArgs, context)
+  }
+
+  const nested = children ? readEntries(children, `${path}.children`, command.id, actions) : []
+  return [{ path: location, command }, ...nested]
+}
+
+/**
+ * Serialize the commands running a named action or only holding children,
+ * along with their serializable fields. Commands with a plain handler and
+ * their descendants are left out, and so are the commands left without any
+ * descendant to hold, which would not load back.
+ * @param commands The commands, flattened with parents first
+ * @returns The manifest, nested commands linked through `parent`
+ */
+export function toManifest(commands: HotKeyPadCommand[]): HotKeyPadManifest {
+  const exported = new Set<string>()
+  const entries = commands.filter((command) => {
+    const isSerializable = command.action != null || command.handler == null
+    const isReachable = command.parent == null || exported.has(command.parent)
+    if (isSerializable && isReachable) exported.add(command.id)
+    return isSerializable && isReachable
+  })
+
+  const parents = new Set<string>()
+  const kept = [...entries].reverse().filter((command) => {
+    if (command.action == null && command.handler == null && !parents.has(command.id)) return false
+    if (command.parent != null) parents.add(command.parent)
+    return true
+  })
+  return { version: MANIFEST_VERSION, commands: kept.reverse().map(toEntry) }
+}
+
+function toEntry(command: HotKeyPadCommand): HotKeyPadManifestCommand {
+  const fields = FIELDS.map((field) => [field, command[field as keyof HotKeyPadCommand]])
+  const entry = Object.fromEntries(
+    fields.filter(([, value]) => value != null && typeof value !== "function")
+  ) as HotKeyPadManifestCommand
+  if (command.args) entry.args = command.args.map(({ validate: _, ...argument }) => argument as HotKeyPadArgument)
+  return entry
+}
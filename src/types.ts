@@ -1,26 +1,358 @@
 /**
  * Represents a command in the HotKeyPad.
- * Each command has a unique identifier, title, hotkey combination, and handler function.
+ * Each command has a unique identifier, title and handler function, and optionally a hotkey.
+ * Commands with children open a sub-page instead of running a handler.
  */
 export interface HotKeyPadCommand {
   /** Unique identifier for the command */
   id: string
   /** Display title of the command */
   title: string
-  /** Optional icon (SVG string, img tag, i tag, or Simple Icons name) */
+  /** Optional secondary text shown under the title and used in search */
+  description?: string
+  /** Optional extra terms the command can be found by */
+  keywords?: string[]
+  /** Optional icon: SVG string, img tag, i tag, or a name resolved by `iconResolver`, the bundled icons or the CDN */
   icon?: string
-  /** Hotkey combination (e.g., "Ctrl+K", "Cmd+P") */
-  hotkey: string
+  /** Optional hotkey combination (e.g., "Ctrl+K", "Alt+Shift+F", "F2") or space separated sequence (e.g., "g i", "Ctrl+K Ctrl+S") */
+  hotkey?: string
   /** Optional section to group commands under */
   section?: string
-  /** Handler function executed when command is triggered */
-  handler: (instance: HTMLElement) => void
+  /** Optional scope the command belongs to, available only while active (see `setScope`) */
+  scope?: string
+  /** Optional predicate evaluated on open and keypress, the command is unavailable when false */
+  when?: () => boolean
+  /** Whether the command can run, disabled commands are listed but never invoke the handler (default: true) */
+  enabled?: boolean | (() => boolean)
+  /** Whether the command is left out of the list, its hotkey still works (default: false) */
+  hidden?: boolean | (() => boolean)
+  /** Whether the hotkey also fires while an input, textarea or contenteditable is focused (default: false) */
+  allowInInput?: boolean
+  /** Id of the parent command whose page lists this command */
+  parent?: string
+  /** Nested commands listed in a sub-page when this command is activated */
+  children?: HotKeyPadCommand[]
+  /** Optional values asked for in the header input before the handler runs, passed as `args` */
+  args?: HotKeyPadArgument[]
+  /** Named action the handler was resolved from when loaded from a manifest, kept for `exportManifest()` */
+  action?: HotKeyPadActionRef
+  /** Optional other things the command can do, run with Shift+Enter, Ctrl+Enter or from its action panel */
+  secondaryActions?: HotKeyPadSecondaryAction[]
+  /** Handler function executed when command is triggered, optional for commands with children */
+  handler?: (context: HotKeyPadHandlerContext) => void | Promise<unknown>
+  /** Whether the keypad stays open after the handler runs (default: false) */
+  keepOpen?: boolean
+  /** Whether to keep the keypad open with a busy item until an async handler settles (default: false) */
+  showProgress?: boolean
+}
+
+export interface HotKeyPadArgumentBase {
+  /** Key of the value in the `args` passed to the handler */
+  name: string
+  /** Placeholder of the prompt, defaults to the name */
+  label?: string
+  /** Whether the value can be left empty, leaving it out of `args` (default: false) */
+  optional?: boolean
+  /** Custom check run after the built-in ones, returning an error message to reject the value */
+  validate?: (value: string | number, args: HotKeyPadArgs) => string | null | undefined
+}
+
+/**
+ * Free text argument.
+ */
+export interface HotKeyPadTextArgument extends HotKeyPadArgumentBase {
+  type: "text"
+  /** Text the prompt starts with */
+  default?: string
+}
+
+/**
+ * Numeric argument, passed to the handler as a number.
+ */
+export interface HotKeyPadNumberArgument extends HotKeyPadArgumentBase {
+  type: "number"
+  /** Number the prompt starts with */
+  default?: number
+  /** Smallest accepted value */
+  min?: number
+  /** Largest accepted value */
+  max?: number
+}
+
+/**
+ * Argument picked from a list of choices, filtered as the user types.
+ */
+export interface HotKeyPadChoiceArgument extends HotKeyPadArgumentBase {
+  type: "choice"
+  /** The choices, as values or with a label shown instead of the value */
+  choices: Array<string | HotKeyPadChoice>
+  /** Whether text matching no choice is accepted as is (default: false) */
+  allowCustom?: boolean
+  /** Text the prompt starts with */
+  default?: string
+}
+
+/**
+ * A choice of a choice argument.
+ */
+export interface HotKeyPadChoice {
+  /** Value passed to the handler */
+  value: string
+  /** Text listed and searched, defaults to the value */
+  label?: string
+  /** Optional secondary text shown under the label */
+  description?: string
+  /** Optional icon, resolved like the icon of a command */
+  icon?: string
+}
+
+/**
+ * A value a command asks for before it runs.
+ */
+export type HotKeyPadArgument = HotKeyPadTextArgument | HotKeyPadNumberArgument | HotKeyPadChoiceArgument
+
+/**
+ * Values collected for the arguments of a command, keyed by argument name.
+ */
+export type HotKeyPadArgs = { [name: string]: string | number }
+
+/**
+ * Why the value given for an argument was rejected.
+ */
+export type HotKeyPadArgumentError =
+  | { reason: "required" | "number" | "choice" }
+  | { reason: "min"; min: number }
+  | { reason: "max"; max: number }
+  | { reason: "invalid"; message: string }
+
+/**
+ * How a command was triggered.
+ */
+export type HotKeyPadTrigger = "click" | "enter" | "hotkey"
+/**
+ * Something else a command can do, listed in its action panel, e.g. "Copy link".
+ */
+export interface HotKeyPadSecondaryAction {
+  /** Identifier of the action, unique within the command */
+  id: string
+  /** Display title of the action */
+  title: string
+  /** Optional icon, resolved like the icon of a command */
+  icon?: string
+  /** Function executed in place of the command handler, with the same context */
+  handler: (context: HotKeyPadHandlerContext) => void | Promise<unknown>
 }
 
+/**
+ * Context passed to a command handler.
+ */
+export interface HotKeyPadHandlerContext {
+  /** The command being executed */
+  command: HotKeyPadCommand
+  /** How the command was triggered */
+  source: HotKeyPadTrigger
+  /** The search query when the command was triggered */
+  query: string
+  /** Values of the command arguments, empty for commands without any */
+  args: HotKeyPadArgs
+  /** The secondary action being executed, null for the handler of the command */
+  secondaryAction: HotKeyPadSecondaryAction | null
+  /** The event that triggered the command */
+  event: Event
+  /** The HotKeyPad element */
+  instance: HTMLElement
+}
+
+/**
+ * Handler registered by name with `registerAction()`, referenced by manifest commands.
+ * Receives the `args` of the action in the manifest and the handler context.
+ */
+export type HotKeyPadAction = (args: HotKeyPadActionArgs, context: HotKeyPadHandlerContext) => void | Promise<unknown>
+
+/**
+ * Static values passed to an action, as written in the manifest.
+ */
+export type HotKeyPadActionArgs = { [name: string]: unknown }
+
+/**
+ * Reference from a manifest command to a registered action.
+ */
+export interface HotKeyPadActionRef {
+  /** Name the action was registered with */
+  name: string
+  /** Values passed to the action */
+  args?: HotKeyPadActionArgs
+}
+
+/**
+ * A command in a JSON manifest: the serializable fields of a command, with
+ * a named action instead of a handler and boolean-only predicates.
+ */
+export interface HotKeyPadManifestCommand
+  extends Pick<
+    HotKeyPadCommand,
+    | "id"
+    | "title"
+    | "description"
+    | "keywords"
+    | "icon"
+    | "hotkey"
+    | "section"
+    | "scope"
+    | "parent"
+    | "allowInInput"
+    | "keepOpen"
+    | "showProgress"
+    | "args"
+    | "action"
+  > {
+  /** Whether the command can run (default: true) */
+  enabled?: boolean
+  /** Whether the command is left out of the list (default: false) */
+  hidden?: boolean
+  /** Nested commands listed in a sub-page */
+  children?: HotKeyPadManifestCommand[]
+}
+
+/**
+ * JSON manifest of commands, loaded with `loadManifest()` and produced by `exportManifest()`.
+ */
+export interface HotKeyPadManifest {
+  /** Version of the manifest format, 1 */
+  version?: number
+  /** The commands */
+  commands: HotKeyPadManifestCommand[]
+}
+
+/**
+ * Async source of commands, called with the current query as the user types.
+ * The signal is aborted when a newer query supersedes this one.
+ */
+export type HotKeyPadProvider = (query: string, signal: AbortSignal) => Promise<HotKeyPadCommand[]>
+
+/**
+ * A search mode, entered by typing its prefix at the start of the query.
+ * Without a provider, the mode searches the commands passing its filter.
+ */
+export interface HotKeyPadMode {
+  /** Characters starting the query that enter the mode, e.g. ">" */
+  prefix: string
+  /** Name of the mode, listed by the "?" mode */
+  title: string
+  /** Description listed by the "?" mode */
+  description?: string
+  /** Placeholder of the search input while in the mode */
+  placeholder?: string
+  /** Message when nothing matches in the mode */
+  emptyMessage?: string
+  /** Source of the results in place of the commands, also queried with an empty query */
+  provider?: HotKeyPadProvider
+  /** Commands listed in the mode, when it has no provider (default: all of them) */
+  filter?: (command: HotKeyPadCommand) => boolean
+}
+
+/**
+ * Key-value storage used to persist data such as the command history.
+ * `localStorage` and `sessionStorage` can be used as is.
+ */
+export interface HotKeyPadStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+/**
+ * Texts displayed or announced by the HotKeyPad.
+ */
+export interface HotKeyPadMessages {
+  /** Placeholder of the search input */
+  placeholder: string
+  /** Message when no commands match the search */
+  emptyMessage: string
+  /** Accessible name of the dialog */
+  dialogLabel: string
+  /** Accessible name of the results list */
+  listboxLabel: string
+  /** Accessible name of the breadcrumbs */
+  breadcrumbsLabel: string
+  /** First breadcrumb, leading back to the root page */
+  home: string
+  /** Title of the recently used commands section */
+  recent: string
+  /** Shown while providers are loading */
+  loading: string
+  /** Footer hint after the select key */
+  toSelect: string
+  /** Footer hint after the navigation keys */
+  toNavigate: string
+  /** Footer hint after the close keys */
+  toClose: string
+  /** Placeholder shown while recording a new shortcut */
+  recordPrompt: string
+  /** Announcement of the number of results */
+  results: (count: number) => string
+  /** Error when a required argument is left empty */
+  argumentRequired: string
+  /** Error when a number argument is not a number */
+  argumentNumber: string
+  /** Error when a number argument is below its minimum */
+  argumentMin: (min: number) => string
+  /** Error when a number argument is above its maximum */
+  argumentMax: (max: number) => string
+  /** Error when a choice argument matches no choice */
+  argumentChoice: string
+  /** Title of the cheat sheet */
+  cheatSheetTitle: string
+  /** Label of the cheat sheet print button */
+  print: string
+  /** Note on a cheat sheet entry whose hotkey clashes with other commands */
+  conflictsWith: (titles: string[]) => string
+  /** Note on a cheat sheet entry whose hotkey is reserved by the browser or system */
+  reservedHotkey: string
+  /** Note on a cheat sheet entry whose saved hotkey was dropped */
+  rejectedHotkey: string
+  /** Title of the "?" mode listing the modes */
+  modes: string
+  /** Placeholder of the search input in the "?" mode */
+  modesPlaceholder: string
+  /** Footer hint after the key opening the action panel */
+  toOpenActions: string
+  /** Accessible name of the action panel of a command */
+  actionsLabel: (title: string) => string
+}
+
+/**
+ * Element whose keyboard events a HotKeyPad instance listens to.
+ */
+export type KeyboardTarget = HTMLElement | Document | ShadowRoot
+
+/**
+ * Maps an icon name to its markup or element, or to nothing to fall back to the bundled icons.
+ * Markup is sanitized, elements are used as is.
+ */
+export type HotKeyPadIconResolver = (
+  name: string
+) => string | Element | null | undefined | Promise<string | Element | null | undefined>
+
+/**
+ * Color theme of the keypad, "system" follows the `prefers-color-scheme` media query.
+ */
+export type HotKeyPadTheme = "light" | "dark" | "system"
+
 /**
  * Configuration options for the HotKeyPad instance.
  */
 export type HotKeyPadOptionsProps = {
+  /** Element, selector or shadow root to mount in (default: the #hotkeypad element) */
+  target?: HTMLElement | ShadowRoot | string
+  /** Where the activation key and command hotkeys are listened for (default: document) */
+  keyboardTarget?: KeyboardTarget
+  /** Locale of the built-in messages, e.g. "es" or "fr-CA" (default: "en") */
+  locale?: string
+  /** Messages overriding the locale ones */
+  messages?: Partial<HotKeyPadMessages>
+  /** Text direction, "auto" picks it from the locale (default: "auto") */
+  dir?: "ltr" | "rtl" | "auto"
   /** Key to close the keypad (default: "Escape") */
   closeKey?: string
   /** Placeholder text for the search input (default: "Search command") */
@@ -29,13 +361,238 @@ export type HotKeyPadOptionsProps = {
   emptyMessage?: string
   /** Letter combined with activation key (default: "K") */
   activationLetter?: string
+  /** Milliseconds to wait for the next key of a hotkey sequence (default: 1000) */
+  chordTimeout?: number
+  /** Milliseconds to wait after typing before querying providers (default: 200) */
+  searchDebounce?: number
+  /** Storage for the command history (default: localStorage) */
+  storage?: HotKeyPadStorage
+  /** Maximum number of commands in the "Recent" section, 0 to hide it (default: 5) */
+  recentLimit?: number
+  /** Hotkey that records a new shortcut for the active item while the keypad is open (default: none) */
+  recordHotkey?: string
+  /** Color theme (default: "light") */
+  theme?: HotKeyPadTheme
+  /** Resolves icon names to markup or elements before the bundled icons are looked up */
+  iconResolver?: HotKeyPadIconResolver
+  /** Fetch unknown icon names from Simple Icons, or from a URL template with `{name}` (default: false) */
+  iconCdn?: boolean | string
+  /**
+   * Where `data-hotkeypad-command` elements are turned into commands, null to turn it off
+   * (default: the keyboard target, or the shadow root the keypad is rendered in, otherwise document)
+   */
+  commandRoot?: HTMLElement | Document | ShadowRoot | string | null
+  /** URL hash opening the cheat sheet, e.g. "#shortcuts" (default: none) */
+  cheatSheetHash?: string
+}
+
+/**
+ * Configuration options for the headless CommandPaletteCore.
+ */
+export type CommandPaletteCoreOptions = Pick<
+  HotKeyPadOptionsProps,
+  "activationLetter" | "chordTimeout" | "searchDebounce" | "storage" | "recentLimit"
+> & {
+  /** Called with the keys typed so far when a hotkey sequence times out unfinished */
+  onChordTimeout?: (chord: HotkeyCombo[]) => void
+  /** Called with the saved overrides dropped because they no longer fit the registered commands */
+  onKeybindingsRejected?: (rejected: CommandPaletteRejectedKeybinding[]) => void
+}
+
+/**
+ * A command matching the current query, as listed by the palette.
+ */
+export interface CommandPaletteItem {
+  /** The matched command */
+  command: HotKeyPadCommand
+  /** The hotkey in effect, taking keybinding overrides into account */
+  hotkey?: string
+  /** Indices of the matched characters in the title */
+  indices: number[]
+  /** Relevance of the match, higher is better */
+  score: number
+  /** Whether the command can run */
+  isEnabled: boolean
+  /** Whether the command opens a sub-page */
+  hasChildren: boolean
 }
 
+/**
+ * A group of listed commands sharing a section.
+ */
+export interface CommandPaletteSection {
+  /** Name of the section, "Unlisted" for commands without one */
+  name: string
+  /** Whether this is the section of recently used commands */
+  isRecent: boolean
+  /** The listed commands, most relevant first */
+  items: CommandPaletteItem[]
+}
+
+/**
+ * Snapshot of the palette state passed to subscribers.
+ */
+export interface CommandPaletteState {
+  /** The search query */
+  query: string
+  /** The commands whose sub-pages are open, outermost first */
+  pages: HotKeyPadCommand[]
+  /** The active scopes, oldest first */
+  scopes: string[]
+  /** The results grouped by section, most relevant first */
+  sections: CommandPaletteSection[]
+  /** The results of every section, in display order */
+  items: CommandPaletteItem[]
+  /** Index of the active item in `items` */
+  activeIndex: number
+  /** Whether providers are being queried */
+  isLoading: boolean
+  /** The keys typed so far of an unfinished hotkey sequence, or an empty string */
+  pendingChord: string
+  /** The argument being asked for, while the query is used as its value */
+  prompt: CommandPalettePrompt | null
+  /** The mode the query is searched in, null for the default search */
+  mode: HotKeyPadMode | null
+}
+
+/**
+ * An argument being asked for before a command runs. The choices of a
+ * choice argument are listed as the items, with the choice value as id.
+ */
+export interface CommandPalettePrompt {
+  /** The command collecting its arguments */
+  command: HotKeyPadCommand
+  /** The argument asked for */
+  argument: HotKeyPadArgument
+  /** Position of the argument among the arguments of the command */
+  step: number
+  /** Values of the previous arguments */
+  args: HotKeyPadArgs
+  /** Why the last submitted value was rejected */
+  error: HotKeyPadArgumentError | null
+}
+
+/**
+ * A registered hotkey, or a saved override dropped since, as listed by the cheat sheet.
+ */
+export interface CommandPaletteHotkey {
+  /** The command the hotkey runs */
+  command: HotKeyPadCommand
+  /** The hotkey in effect, keybinding overrides included, or the dropped override */
+  hotkey: string
+  /** Commands bound to the same hotkey, or to a sequence starting with it or it starts with */
+  conflicts: HotKeyPadCommand[]
+  /** Whether the hotkey is reserved by the browser or system */
+  isReserved: boolean
+  /** Whether the hotkey is a saved override dropped when the commands were registered */
+  isRejected: boolean
+}
+
+/**
+ * A keybinding override dropped because it is not valid, reserved or conflicts
+ * with the commands registered since it was saved.
+ */
+export interface CommandPaletteRejectedKeybinding {
+  /** The id of the overridden command */
+  id: string
+  /** The overriding hotkey */
+  hotkey: string
+  /** Why the override was dropped */
+  error: Error
+}
+
+/**
+ * The registered hotkeys of a section, in registration order.
+ */
+export interface CommandPaletteHotkeySection {
+  /** Name of the section, "Unlisted" for commands without one */
+  name: string
+  hotkeys: CommandPaletteHotkey[]
+}
+
+/**
+ * Outcome of matching a keyboard event against the registered hotkeys.
+ */
+export type HotkeyMatch = { status: "complete"; command: HotKeyPadCommand } | { status: "pending" }
+
+/**
+ * The keyboard event fields hotkeys are matched against.
+ */
+export type HotkeyEvent = Pick<KeyboardEvent, "key" | "code" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">
+
+/**
+ * Structured representation of a single hotkey combination.
+ */
+export interface HotkeyCombo {
+  /** Normalized key, e.g. "K", "1", "/", "F2" or "ArrowUp" */
+  key: string
+  /** Whether Ctrl must be held */
+  ctrl: boolean
+  /** Whether Cmd/Meta must be held */
+  meta: boolean
+  /** Whether Alt/Option must be held */
+  alt: boolean
+  /** Whether Shift must be held */
+  shift: boolean
+}
+
+/**
+ * Result of a fuzzy match between a query and a text.
+ */
+export interface FuzzyMatch {
+  /** Relevance of the match, higher is better */
+  score: number
+  /** Indices of the matched characters in the text */
+  indices: number[]
+}
+
+/**
+ * Internal record of how often and when a command was used.
+ */
+export interface CommandUsage {
+  count: number
+  lastUsed: number
+}
+
+/**
+ * Internal record of a command read from a manifest, with the location of its entry.
+ */
+export interface ManifestEntry {
+  path: string
+  command: HotKeyPadCommand
+}
+
+/**
+ * Internal record of a rendered item element, reused while its command is unchanged.
+ */
+export interface RenderedItem {
+  command: HotKeyPadCommand
+  hotkey?: string
+  element: HTMLElement
+}
+
+/**
+ * A row of the virtualized result list: a section heading or an item,
+ * placed at `top` pixels from the start of the list. Items of a titled
+ * section point to the key of its heading row through `group`.
+ */
+export type ListRow =
+  | { type: "section"; key: string; top: number; section: string; isRecent: boolean }
+  | {
+      type: "item"
+      key: string
+      top: number
+      section: string | null
+      group: string | null
+      item: CommandPaletteItem
+      index: number
+    }
+
 /**
  * Internal stored event listener for proper cleanup.
  */
 export interface StoredListener {
-  element: HTMLElement | Document
+  element: KeyboardTarget | MediaQueryList | Window
   event: string
   callback: EventListener
 }
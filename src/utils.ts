@@ -1,3 +1,5 @@
+import type { FuzzyMatch, HotKeyPadStorage, HotkeyCombo, HotkeyEvent } from "./types"
+
 /**
  * Create a new element with the given tag and props
  * @param tag The tag of the element
@@ -25,7 +27,7 @@ export function createElement(
  * @param callback The callback to execute
  * @returns The stored listener object for cleanup
  */
-export function createListener<E extends HTMLElement | Document | Window>(
+export function createListener<E extends HTMLElement | Document | ShadowRoot | Window | MediaQueryList>(
   element: E,
   event: string,
   callback: EventListener
@@ -35,62 +37,449 @@ export function createListener<E extends HTMLElement | Document | Window>(
 }
 
 /**
- * Extract the valid letter from the hotkey
- * @param hotkey The hotkey to extract the letter from
- * @returns The activation letter in uppercase, or null if invalid
- * @example
- * extractHotkeyLetter("Control + D") // "D"
- * extractHotkeyLetter("control + shift + l") // "L"
- * extractHotkeyLetter("") // null
+ * Create a storage adapter that keeps everything in memory, e.g. for tests
+ * @returns The storage adapter
+ */
+export function createMemoryStorage(): HotKeyPadStorage {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key)
+  }
+}
+
+/**
+ * Get localStorage, or an in-memory storage where it is not available
+ * @returns The storage adapter
+ */
+export function getDefaultStorage(): HotKeyPadStorage {
+  try {
+    return window.localStorage
+  } catch {
+    return createMemoryStorage()
+  }
+}
+
+/**
+ * Resolve a flag that may be given as a value or as a function evaluated on demand
+ * @param predicate The flag or function to resolve
+ * @param fallback The value used when the predicate is not set
+ * @returns The resolved flag
+ */
+export function resolvePredicate(predicate: boolean | (() => boolean) | undefined, fallback: boolean) {
+  if (predicate == null) return fallback
+  return typeof predicate === "function" ? predicate() : predicate
+}
+
+/**
+ * Get the focused element, looking inside open shadow roots
+ * @param root The document or shadow root to start from
+ * @returns The deepest focused element, or null if none
  */
-export function extractHotkeyLetter(hotkey: string): string | null {
-  const match = hotkey.match(/\w+$/)
-  if (!match) return null
-  const key = match[0]
-  if (key.length !== 1) return null
-  return key.toUpperCase()
+export function getActiveElement(root: Document | ShadowRoot = document): HTMLElement | null {
+  const active = root.activeElement
+  if (!(active instanceof HTMLElement)) return null
+  if (active.shadowRoot) return getActiveElement(active.shadowRoot) ?? active
+  return active
+}
+
+/**
+ * Check whether the given target accepts text input
+ * @param target The event target to check
+ * @returns Whether the target is an input, textarea, select or contenteditable element
+ */
+export function isEditableElement(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable) return true
+  return ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+const MODIFIER_ALIASES: { [key: string]: keyof Omit<HotkeyCombo, "key"> } = {
+  ctrl: "ctrl",
+  control: "ctrl",
+  cmd: "meta",
+  command: "meta",
+  meta: "meta",
+  super: "meta",
+  win: "meta",
+  alt: "alt",
+  option: "alt",
+  opt: "alt",
+  shift: "shift"
+}
+
+const NAMED_KEYS: { [key: string]: string } = {
+  esc: "Escape",
+  escape: "Escape",
+  enter: "Enter",
+  return: "Enter",
+  tab: "Tab",
+  space: "Space",
+  spacebar: "Space",
+  backspace: "Backspace",
+  delete: "Delete",
+  del: "Delete",
+  insert: "Insert",
+  ins: "Insert",
+  home: "Home",
+  end: "End",
+  pageup: "PageUp",
+  pagedown: "PageDown",
+  up: "ArrowUp",
+  down: "ArrowDown",
+  left: "ArrowLeft",
+  right: "ArrowRight",
+  arrowup: "ArrowUp",
+  arrowdown: "ArrowDown",
+  arrowleft: "ArrowLeft",
+  arrowright: "ArrowRight",
+  plus: "+"
+}
+
+const SHIFTED_SYMBOLS: { [key: string]: string } = {
+  "`": "~",
+  "-": "_",
+  "=": "+",
+  "[": "{",
+  "]": "}",
+  "\\": "|",
+  ";": ":",
+  "'": '"',
+  ",": "<",
+  ".": ">",
+  "/": "?"
 }
 
-const VALID_META_KEYS = ["Control", "Shift", "Alt", "Meta"]
 const NOT_ALLOWED_HOTKEYS = [
-  "Control+T",
-  "Control+Shift+T",
-  "Control+W",
-  "Control+Shift+W",
-  "Control+N",
-  "Control+Shift+N",
-  "Control+Tab",
-  "Control+Shift+Tab",
-  "Meta+T",
-  "Meta+Shift+T",
-  "Meta+W",
-  "Meta+Shift+W",
-  "Meta+N",
-  "Meta+Shift+N",
-  "Meta+Tab",
-  "Meta+Shift+Tab"
+  "Ctrl+T",
+  "Ctrl+Shift+T",
+  "Ctrl+W",
+  "Ctrl+Shift+W",
+  "Ctrl+N",
+  "Ctrl+Shift+N",
+  "Ctrl+Tab",
+  "Ctrl+Shift+Tab",
+  "Cmd+T",
+  "Cmd+Shift+T",
+  "Cmd+W",
+  "Cmd+Shift+W",
+  "Cmd+N",
+  "Cmd+Shift+N",
+  "Cmd+Tab",
+  "Cmd+Shift+Tab"
 ]
+
+function normalizeKey(key: string): string | null {
+  if (key.length === 1) return /\s/.test(key) ? null : key.toUpperCase()
+  const named = NAMED_KEYS[key.toLowerCase()]
+  if (named) return named
+  const functionKey = key.match(/^f([1-9]|1[0-9]|2[0-4])$/i)
+  if (functionKey) return `F${functionKey[1]}`
+  return null
+}
+
+/**
+ * Parse a hotkey string into a structured combo
+ * @param hotkey The hotkey to parse
+ * @returns The parsed combo, or null if the hotkey is not valid
+ * @example
+ * parseHotkey("Alt + Shift + f") // { key: "F", ctrl: false, meta: false, alt: true, shift: true }
+ * parseHotkey("Ctrl++") // { key: "+", ctrl: true, meta: false, alt: false, shift: false }
+ * parseHotkey("Shift+/") // { key: "?", ctrl: false, meta: false, alt: false, shift: false }
+ * parseHotkey("Ctrl+Foo") // null
+ */
+export function parseHotkey(hotkey: string): HotkeyCombo | null {
+  const value = hotkey.trim()
+  if (value === "") return null
+
+  const endsWithPlus = /(^|\+)\s*\+$/.test(value)
+  const parts = (endsWithPlus ? value.replace(/\+$/, "") : value).split("+").map((part) => part.trim())
+  const rawKey = endsWithPlus ? "+" : parts.pop()
+  const modifiers = endsWithPlus ? parts.slice(0, -1) : parts
+  if (rawKey == null || rawKey === "") return null
+
+  const combo: HotkeyCombo = { key: "", ctrl: false, meta: false, alt: false, shift: false }
+  for (const modifier of modifiers) {
+    const name = MODIFIER_ALIASES[modifier.toLowerCase()]
+    if (!name || combo[name]) return null
+    combo[name] = true
+  }
+
+  const key = normalizeKey(rawKey)
+  if (key == null) return null
+  combo.key = key
+  return normalizeShift(combo)
+}
+
+/**
+ * Fold Shift into symbol keys, since it is part of typing the symbol itself:
+ * "Shift+/" and "Shift+?" both become "?", the character typed on a US layout.
+ */
+function normalizeShift(combo: HotkeyCombo): HotkeyCombo {
+  if (!combo.shift || combo.key.length !== 1 || /^[A-Z0-9]$/.test(combo.key)) return combo
+  return { ...combo, key: SHIFTED_SYMBOLS[combo.key] ?? combo.key, shift: false }
+}
+
+/**
+ * Parse a hotkey made of one or more space separated steps
+ * @param hotkey The hotkey to parse
+ * @returns The list of combos to press in order, or null if any step is not valid
+ * @example
+ * parseHotkeySequence("g i") // [{ key: "G", ... }, { key: "I", ... }]
+ * parseHotkeySequence("Ctrl + K Ctrl + S") // [{ key: "K", ctrl: true, ... }, { key: "S", ctrl: true, ... }]
+ */
+export function parseHotkeySequence(hotkey: string): HotkeyCombo[] | null {
+  const steps = hotkey
+    .trim()
+    .replace(/\s*\+\s*/g, "+")
+    .split(/\s+/)
+    .filter((step) => step !== "")
+  if (steps.length === 0) return null
+
+  const sequence: HotkeyCombo[] = []
+  for (const step of steps) {
+    const combo = parseHotkey(step)
+    if (combo == null) return null
+    sequence.push(combo)
+  }
+  return sequence
+}
+
+/**
+ * Get the display keys of a combo, modifiers first
+ * @param combo The combo to split
+ * @returns The list of keys
+ * @example
+ * hotkeyToKeys(parseHotkey("shift+alt+f")) // ["Alt", "Shift", "F"]
+ */
+export function hotkeyToKeys(combo: HotkeyCombo) {
+  const keys: string[] = []
+  if (combo.ctrl) keys.push("Ctrl")
+  if (combo.meta) keys.push("Cmd")
+  if (combo.alt) keys.push("Alt")
+  if (combo.shift) keys.push("Shift")
+  keys.push(combo.key)
+  return keys
+}
+
+const MAC_KEY_LABELS: { [key: string]: string } = { Ctrl: "⌃", Cmd: "⌘", Alt: "⌥", Shift: "⇧" }
+const OTHER_KEY_LABELS: { [key: string]: string } = { Cmd: "Meta" }
+const KEY_LABELS: { [key: string]: string } = {
+  Escape: "Esc",
+  Enter: "↵",
+  Backspace: "⌫",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→"
+}
+
+/**
+ * Get the label to display for a key on the current platform
+ * @param key A key as returned by hotkeyToKeys, e.g. "Cmd" or "ArrowUp"
+ * @param isMac Whether to use the macOS modifier symbols
+ * @returns The label
+ * @example
+ * formatKeyLabel("Cmd", true) // "⌘"
+ * formatKeyLabel("Alt", false) // "Alt"
+ */
+export function formatKeyLabel(key: string, isMac: boolean) {
+  const platformLabels = isMac ? MAC_KEY_LABELS : OTHER_KEY_LABELS
+  return platformLabels[key] ?? KEY_LABELS[key] ?? key
+}
+
+/**
+ * Format a combo into its canonical hotkey string
+ * @param combo The combo to format
+ * @returns The canonical hotkey, e.g. "Ctrl+Alt+Shift+F"
+ */
+export function formatHotkey(combo: HotkeyCombo) {
+  return hotkeyToKeys(combo).join("+")
+}
+
+/**
+ * Format a sequence into its canonical hotkey string
+ * @param sequence The combos to format
+ * @returns The canonical hotkey, e.g. "Ctrl+K Ctrl+S"
+ */
+export function formatHotkeySequence(sequence: HotkeyCombo[]) {
+  return sequence.map(formatHotkey).join(" ")
+}
+
+/**
+ * Check whether a keyboard event triggers the given combo
+ * Modifiers must match exactly, except Shift on symbol keys where it is
+ * part of typing the character itself (e.g. "?" on most layouts).
+ * @param combo The combo to compare
+ * @param event The keyboard event
+ * @returns Whether the event matches the combo
+ */
+export function matchesHotkey(combo: HotkeyCombo, event: HotkeyEvent) {
+  if (event.ctrlKey !== combo.ctrl || event.metaKey !== combo.meta || event.altKey !== combo.alt) return false
+
+  const { key } = combo
+  if (/^[A-Z]$/.test(key)) return event.shiftKey === combo.shift && event.code === `Key${key}`
+  if (/^[0-9]$/.test(key))
+    return event.shiftKey === combo.shift && (event.code === `Digit${key}` || event.code === `Numpad${key}`)
+  if (key.length === 1) return (!combo.shift || event.shiftKey) && event.key === key
+  if (event.shiftKey !== combo.shift) return false
+  if (key === "Space") return event.code === "Space"
+  return event.key === key
+}
+
 /**
  * Validate the given hotkey
  * @param hotkey The hotkey to verify
  * @returns Whether the hotkey is valid or not
  */
 export function isValidHotkey(hotkey: string) {
-  const keys = hotkey.match(/\w+/g) ?? []
-  if (keys.length === 0) return false
-
-  const hotkeyString = keys
-    .map((key) => {
-      if (key.toUpperCase() === "CTRL") return "Control"
-      if (key.toUpperCase() === "CMD") return "Meta"
-      return key[0].toUpperCase() + key.slice(1).toLowerCase()
+  return parseHotkeySequence(hotkey) != null && !isReservedHotkey(hotkey)
+}
+
+/**
+ * Check whether any step of the given hotkey is reserved by the browser or system
+ * @param hotkey The hotkey to check
+ * @returns Whether the hotkey is reserved, e.g. "Ctrl+T" or "Cmd+W"
+ */
+export function isReservedHotkey(hotkey: string) {
+  const sequence = parseHotkeySequence(hotkey) ?? []
+  return sequence.some((combo) => NOT_ALLOWED_HOTKEYS.includes(formatHotkey(combo)))
+}
+
+/**
+ * Read keybinding overrides from parsed JSON
+ * @param data The parsed JSON, an object mapping command ids to hotkeys or null
+ * @returns The keybindings
+ * @throws Error if the data does not have that shape
+ */
+export function parseKeybindings(data: unknown) {
+  if (typeof data !== "object" || data == null || Array.isArray(data))
+    throw new Error("The keybindings should be an object mapping command ids to hotkeys")
+  const keybindings = new Map<string, string | null>()
+  Object.entries(data).forEach(([id, hotkey]) => {
+    if (hotkey !== null && typeof hotkey !== "string")
+      throw new Error(`The keybinding of the command "${id}" should be a hotkey string or null`)
+    keybindings.set(id, hotkey)
+  })
+  return keybindings
+}
+
+/**
+ * Build the hotkey pressed in a keyboard event
+ * @param event The keyboard event
+ * @returns The canonical hotkey, or null for lone modifiers and unsupported keys
+ * @example
+ * hotkeyFromEvent(new KeyboardEvent("keydown", { code: "KeyS", key: "s", ctrlKey: true })) // "Ctrl+S"
+ */
+export function hotkeyFromEvent(event: HotkeyEvent) {
+  const letter = event.code.match(/^Key([A-Z])$/)
+  const digit = event.code.match(/^(?:Digit|Numpad)([0-9])$/)
+  const key = letter?.[1] ?? digit?.[1] ?? (event.code === "Space" ? "Space" : normalizeKey(event.key))
+  if (key == null) return null
+  return formatHotkey(
+    normalizeShift({
+      key,
+      ctrl: event.ctrlKey,
+      meta: event.metaKey,
+      alt: event.altKey,
+      shift: event.shiftKey
     })
-    .join("+")
-  return (
-    !NOT_ALLOWED_HOTKEYS.includes(hotkeyString) &&
-    hotkeyString
-      .split("+")
-      .slice(0, -1)
-      .every((key) => VALID_META_KEYS.includes(key))
   )
 }
+
+function isWordStart(text: string, index: number) {
+  if (index === 0) return true
+  const previous = text[index - 1]
+  const current = text[index]
+  if (/[\s\-_/.:]/.test(previous)) return true
+  return current !== current.toLowerCase() && previous === previous.toLowerCase()
+}
+
+function foldText(text: string) {
+  return text
+    .split("")
+    .map((char) => {
+      const folded = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+      return folded.length === 1 ? folded.toLowerCase() : char.toLowerCase()
+    })
+    .join("")
+}
+
+function scoreIndices(text: string, indices: number[]) {
+  return indices.reduce((score, index, position) => {
+    let points = 1
+    if (position > 0 && indices[position - 1] === index - 1) points += 5
+    if (isWordStart(text, index)) points += 8
+    if (position === 0) points -= Math.min(index, 5)
+    else points -= Math.min(index - indices[position - 1] - 1, 3)
+    return score + points
+  }, 0)
+}
+
+/**
+ * Fuzzy match the query against the text as an ordered subsequence
+ * Contiguous runs, word starts and early matches score higher. Queries of 4 or
+ * more characters tolerate one character that is not found in the text.
+ * Matching ignores case and diacritics, so "cafe" matches "Café".
+ * @param query The search query
+ * @param text The text to match against
+ * @returns The score and matched character indices, or null if it does not match
+ * @example
+ * fuzzyMatch("gtl", "Go to line") // { score: 22, indices: [0, 3, 6] }
+ * fuzzyMatch("xyz", "Go to line") // null
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = foldText(query).replace(/\s+/g, "")
+  const haystack = foldText(text)
+  if (needle === "") return { score: 0, indices: [] }
+
+  const substring = haystack.indexOf(needle)
+  if (substring !== -1) {
+    const indices = Array.from(needle, (_, offset) => substring + offset)
+    return { score: scoreIndices(text, indices) + 10 - haystack.length * 0.1, indices }
+  }
+
+  const allowedMisses = needle.length >= 4 ? 1 : 0
+  const indices: number[] = []
+  let misses = 0
+  let cursor = 0
+  for (const char of needle) {
+    const index = haystack.indexOf(char, cursor)
+    if (index === -1) {
+      misses++
+      if (misses > allowedMisses) return null
+      continue
+    }
+    indices.push(index)
+    cursor = index + 1
+  }
+  return { score: scoreIndices(text, indices) - misses * 10 - haystack.length * 0.1, indices }
+}
+
+/**
+ * Build the given text with the matched characters wrapped in <mark> elements
+ * @param text The text to highlight
+ * @param indices The character indices to highlight
+ * @returns A fragment ready to be appended
+ */
+export function highlightText(text: string, indices: number[]) {
+  const fragment = document.createDocumentFragment()
+  const marked = new Set(indices)
+  let run = ""
+  let isMarked = false
+  const flush = () => {
+    if (run === "") return
+    fragment.append(isMarked ? createElement("mark", run) : run)
+    run = ""
+  }
+  text.split("").forEach((char, index) => {
+    if (marked.has(index) !== isMarked) {
+      flush()
+      isMarked = !isMarked
+    }
+    run += char
+  })
+  flush()
+  return fragment
+}